@@ -1,4 +1,6 @@
-import {Book} from '../types';
+import {Book, BookCellRenderer, BookSearchEvent, CarouselOverflowEvent, BookSearchSource, BookSelectEvent, ResizeObserver, ResizeObserverWindow, VoiceCommandEvent} from '../types';
+import fetchWorkDescription from '../services/fetchWorkDescription';
+import themeStyles from './themeStyles';
 
 enum AnimationState {
     Playing,
@@ -6,13 +8,35 @@ enum AnimationState {
     Stopped
 }
 
+enum ScrollDirection {
+    Rtl = 'rtl',
+    Ltr = 'ltr',
+    Vertical = 'vertical'
+}
+
+enum ScrollMode {
+    Step = 'step',
+    Continuous = 'continuous'
+}
+
+enum OverflowMode {
+    None = 'none',
+    Center = 'center',
+    Shrink = 'shrink',
+    Loop = 'loop'
+}
+
+enum FeedState {
+    Idle = 'idle',
+    Loading = 'loading',
+    Ready = 'ready',
+    Empty = 'empty',
+    Error = 'error'
+}
+
 const componentStyles = `
         <style>
         :host {
-            font-family: sans-serif;
-            border: 2px solid purple;
-            padding: 1rem;
-            margin: 1rem;
             display: block;
             width: auto;
         }
@@ -24,59 +48,259 @@ const componentStyles = `
             flex-wrap: nowrap;
         }
         #carousel {
+            position: relative;
             max-height: 600px;
             overflow: hidden;
+            touch-action: pan-y;
+            user-select: none;
         }
-        #list li {
-            margin-top: 0px;
-            margin-left: 0px;
+        :host([direction="vertical"]) #carousel {
+            max-height: none;
+            touch-action: pan-x;
+        }
+        :host([direction="vertical"]) #list {
+            flex-direction: column;
+        }
+        :host([direction="ltr"]) #list {
+            flex-direction: row-reverse;
+        }
+        #carousel.dragging {
+            cursor: grabbing;
+        }
+        :host(:focus) {
+            outline: var(--_focus-ring);
+        }
+        .nav {
+            position: absolute;
+            top: 50%;
+            z-index: 1;
+            transform: translateY(-50%);
+            font: inherit;
+            font-size: 2rem;
+            line-height: 1;
+            border: none;
+            border-radius: var(--_radius);
+            color: var(--_on-primary);
+            background: var(--_primary);
+            opacity: 0.6;
+            cursor: pointer;
+            padding: 0.25rem 0.5rem;
+        }
+        .nav:hover,
+        .nav:focus {
+            opacity: 1;
+        }
+        .nav:focus {
+            outline: var(--_focus-ring);
+        }
+        .state-panel {
+            display: none;
+            position: absolute;
+            top: 0;
+            left: 0;
+            right: 0;
+            bottom: 0;
+            z-index: 2;
+            align-items: center;
+            justify-content: center;
+            background: var(--_background);
+        }
+        :host([state="loading"]) #loading,
+        :host([state="empty"]) #empty,
+        :host([state="error"]) #error {
+            display: flex;
+        }
+        :host([state="loading"]) .nav,
+        :host([state="empty"]) .nav,
+        :host([state="error"]) .nav {
+            display: none;
+        }
+        .state-message {
+            margin: 0;
+            padding: var(--_spacing);
+            text-align: center;
+            color: var(--_muted);
+            border: 1px dashed var(--_disabled);
+            border-radius: var(--_radius);
+        }
+        #error .state-message {
+            color: var(--_error);
+            border-color: var(--_error);
+        }
+        #skeleton {
+            display: flex;
+            align-self: stretch;
+            flex: 1 1 auto;
+            margin: 0;
+            padding: 0;
             list-style: none;
-            overflow:hidden;
         }
-        @media screen and (max-width: 1500px) {
-            #list li {
-                height: 600px;
-            }
-            .cover {
-                height: 450px; 
-            }
-            .title-author {
-                font-size: 1rem;
-            } 
+        :host([direction="vertical"]) #skeleton {
+            flex-direction: column;
         }
-        @media screen and (max-width: 1000px) {
-            #list li {
-                height: 350px;
-            }
-            .cover {
-                height: 300px;
-            }
-            .title-author {
-                font-size: 0.7rem;
-            } 
+        #skeleton li {
+            flex: 1 1 0;
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            padding: 0.5rem;
+        }
+        .skeleton-cover,
+        .skeleton-caption {
+            background: var(--_highlight);
+            animation: pulse 1.5s ease-in-out infinite;
+        }
+        .skeleton-cover {
+            flex: 1 1 auto;
+            width: 60%;
         }
-        @media screen and (max-width: 500px) {
-            #list li {
-                height: 150px;
+        .skeleton-caption {
+            width: 80%;
+            height: 1rem;
+            margin-top: 10px;
+        }
+        @keyframes pulse {
+            50% {
+                opacity: 0.4;
             }
-            .cover {
-                height: 100px;
+        }
+        @media (prefers-reduced-motion: reduce) {
+            .skeleton-cover,
+            .skeleton-caption {
+                animation: none;
             }
-            .title-author {
-                font-size: 0.5rem;
-            } 
+        }
+        #toggle {
+            top: auto;
+            bottom: 0;
+            left: 50%;
+            transform: translateX(-50%);
+            font-size: 1rem;
+        }
+        #detail {
+            position: fixed;
+            top: 0;
+            left: 0;
+            right: 0;
+            bottom: 0;
+            z-index: 10;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            background: rgba(0, 0, 0, 0.6);
+        }
+        #detail[hidden] {
+            display: none;
+        }
+        #detail-content {
+            position: relative;
+            display: flex;
+            flex-wrap: wrap;
+            max-width: 90vw;
+            max-height: 90vh;
+            overflow: auto;
+            padding: var(--_spacing);
+            background: var(--_background);
+            color: var(--_text);
+        }
+        #detail-cover {
+            max-height: 60vh;
+            max-width: 100%;
+            margin: 0 1rem 1rem 0;
+        }
+        #detail-info {
+            flex: 1 1 15rem;
+        }
+        #detail-title {
+            margin-top: 0;
+            color: var(--_primary);
+        }
+        #detail-info dt {
+            font-weight: 500;
+            color: var(--_muted);
+        }
+        #detail-info dd {
+            margin: 0 0 0.5rem 0;
+        }
+        #detail-close {
+            position: absolute;
+            top: 0.25rem;
+            right: 0.25rem;
+            font-size: 1.5rem;
+            line-height: 1;
+            border: none;
+            background: none;
+            color: var(--_primary);
+            cursor: pointer;
+        }
+        .visually-hidden {
+            position: absolute;
+            width: 1px;
+            height: 1px;
+            overflow: hidden;
+            clip: rect(0 0 0 0);
+            white-space: nowrap;
+        }
+        #prev {
+            left: 0;
+        }
+        #next {
+            right: 0;
+        }
+        :host([overflow-mode="center"]) #list {
+            width: 100% !important;
+            transform: none !important;
+            justify-content: center;
+        }
+        :host([overflow-mode="center"]) #list li:not([data-index]) {
+            display: none;
+        }
+        #list li {
+            margin-top: 0px;
+            margin-left: 0px;
+            list-style: none;
+            overflow:hidden;
+            height: var(--ek-dott-cell-height, 150px);
         }
         .cover {
             align-self: center;
             width: auto;
             max-width: 90%;
+            height: var(--ek-dott-cover-height, 100px);
         }
         .title-author {
-            font-family: sans-serif;
-            color: purple;
+            color: var(--_text);
             font-weight: 500;
             height: 50px;
             padding-top: 10px;
+            font-size: var(--ek-dott-caption-font-size, 0.5rem);
+        }
+        #carousel[data-size="sm"] #list li {
+            height: var(--ek-dott-cell-height, 350px);
+        }
+        #carousel[data-size="sm"] .cover {
+            height: var(--ek-dott-cover-height, 300px);
+        }
+        #carousel[data-size="sm"] .title-author {
+            font-size: var(--ek-dott-caption-font-size, 0.7rem);
+        }
+        #carousel[data-size="md"] #list li,
+        #carousel[data-size="lg"] #list li {
+            height: var(--ek-dott-cell-height, 600px);
+        }
+        #carousel[data-size="md"] .cover,
+        #carousel[data-size="lg"] .cover {
+            height: var(--ek-dott-cover-height, 450px);
+        }
+        #carousel[data-size="md"] .title-author,
+        #carousel[data-size="lg"] .title-author {
+            font-size: var(--ek-dott-caption-font-size, 1rem);
+        }
+        #list img.loading {
+            filter: blur(8px);
+            background-color: var(--_highlight);
+            background-position: center;
+            background-size: cover;
         }
         .cell {
             display: flex;
@@ -95,26 +319,99 @@ const componentStyles = `
 * with scrolling cells whcih display book cover and author/title.
 * 
 * @params {} none
-* @attributes {string} items Number o items visible at one time in the carousel
+* @attributes {string} items Number of items visible at one time in the carousel, 3 by default,
+*   or one per container width as "1 sm:2 md:3 lg:5" with the breakpoints sm 500px, md 1000px and lg 1500px
 * @attributes {string} stub-image A URL of a blank image in case the book ite has no valid cover
-* @method setFeed(data:Book[], autostart:boolean):void  Sets the data feed for the carousel with an Book[]
+* @attributes {string} source Id of an ek-dott-input whose search events feed the carousel
+* @attributes {string} state Reflects the feed state from the source: idle, loading, ready, empty or error
+* @attributes {string} speed Time per item as "3000" or "3000ms" (default), or pixels per second as "120px/s"
+* @attributes {string} direction "rtl" items move to the left (default), "ltr" to the right, "vertical" up
+* @attributes {string} easing CSS easing function of each step, "linear" by default
+* @attributes {string} dwell Time in ms the carousel rests between the steps, 0 by default
+* @attributes {string} mode "step" scrolls item by item (default), "continuous" scrolls as a seamless marquee
+* @attributes {string} label Accessible name of the carousel region, "Books" by default
+* @attributes {string} overflow How a feed with fewer books than items is shown: "center" (default) without scrolling,
+*   "shrink" to fill the width, or "loop" repeating the books to scroll seamlessly
+* @attributes {string} overflow-mode Reflects the mode picked for the current feed: none, center, shrink or loop
+* @attributes {string} link-mode "overlay" shows the book details over the page (default), "tab" opens OpenLibrary in a new tab
+* @attributes {string} theme "light" or "dark" forces the built-in theme, otherwise it follows prefers-color-scheme
+*
+* Styled with the --ek-dott-* custom properties documented in themeStyles.ts, plus
+* --ek-dott-cell-height, --ek-dott-cover-height and --ek-dott-caption-font-size
+* which override the sizes the carousel otherwise picks for its width.
+* The layout follows the width of the carousel, not of the window, and keeps
+* the position and the animation state when it changes.
+* @property {BookCellRenderer} renderItem Optional callback rendering the content of a cell
+*
+* Cells are rendered from a <template> child when present, otherwise from the built-in template.
+* In a template data-bind="field" sets the text and data-bind-<attribute>="field" sets the attribute,
+* for any Book field plus "image" (cover URL), "srcset" and "sizes" (responsive cover),
+* "link" (OpenLibrary URL), "author", "caption" and "position".
+* Covers of the buffer cells load lazily, the covers of the next books are preloaded and
+* a blurred small cover is shown while the cover loads.
+* A fixed pool of items+2 cells is reused while scrolling, so the feed may hold thousands of books,
+* a cell built from a template is patched with the fields that changed.
+* The built-in cell exports the parts "cell", "link", "cover" and "caption" for ::part() styling.
+* @event overflowmode CarouselOverflowEvent raised when the overflow mode picked for the feed changes
+* @event bookselect Cancelable BookSelectEvent raised when a cover is activated, before the details are shown
+* @slot loading Shown while the source searches, skeleton cells by default
+* @slot empty Shown when the feed has no books, "No books found" by default
+* @slot error Shown when the search of the source fails
+* The voice commands "next page", "previous page", "pause", "resume" and "clear" of the source are acted on.
+*
+* The carousel pauses while hovered, focused, offscreen or in a background tab and has a pause/play button.
+* Removed from the document it stops and releases its listeners, attached again it continues where it was.
+* With prefers-reduced-motion it does not scroll by itself until the play button is pressed.
+* @method setFeed(data:Book[], autostart:boolean, total?:number):void  Sets the data feed for the carousel with an Book[]
+* @method appendFeed(data:Book[]):void  Appends more books to the feed without re-rendering
+* @method updateItem(index:number, book:Book):void  Replaces a book of the feed, patching the cells showing it
+* @method removeItem(index:number):void  Removes a book from the feed without restarting the animation
+* @event loadmore Raised when the carousel nears the end of the feed and the total has more books
 * @method start():void Starts scrolling the carousel
 * @method stop():void  Stops  scrolling the carousel
 * @method pause():void Pauses scrolling the carousel
+* @method next():void Scrolls one book forward, also with the right arrow key, a swipe or a drag
+* @method previous():void Scrolls one book backward, also with the left arrow key, a swipe or a drag
+* @method goTo(index:number):void Shows the book with the index in the feed as the first one
+* @method showDetail(index:number):void Shows the details of the book with the index in the feed
+* @method closeDetail():void Closes the details
+* @method refresh():void Renders the cells again after the <template> child changed
 */
 class EkDottCarousel extends HTMLElement {
     //default image URL if non available
     static DEFAULT_IMAGE: string = "https://dummyimage.com/180x250/7f007f/eeeeee.png&text=no+cover";
+    //how many books ahead of the cursor should remain before requesting more
+    static LOAD_MORE_THRESHOLD: number = 10;
+    //time in ms to scroll one item by default
+    static DEFAULT_SPEED: number = 3000;
+    //duration in ms of one step scrolled with the buttons, keys or a swipe
+    static MANUAL_STEP_DURATION: number = 300;
+    //time in ms for which the swipe velocity keeps scrolling after release
+    static MOMENTUM_TIME: number = 300;
+    //number of the upcoming covers loaded before they scroll in
+    static PRELOAD_COVERS: number = 3;
+    //approximate widths in px of the OpenLibrary cover sizes, for srcset
+    static COVER_WIDTHS: {[size: string]: number} = {S: 45, M: 180, L: 500};
+    //minimum widths in px of the carousel for the prefixes in the "items" attribute and for the cell heights
+    static BREAKPOINTS: {[name: string]: number} = {sm: 500, md: 1000, lg: 1500};
     //Main UL list which holds the items
     private carouselList: HTMLUListElement | null = null;
     //array of data from where teh book info is rendered
     private _data: Book[] | null = null;
     //number of items in the carousel visible at one time
     private _numberItems: number = 0;
+    //number of visible items from the "items" attribute, _numberItems differs when a short feed shrinks
+    private _requestedItems: number = 0;
+    //how a feed shorter than the visible items is shown
+    private _overflow: OverflowMode = OverflowMode.None;
     //pointer into the data array as the carousel scrolls
     private _dataCursor: number = 0;
-    //this holds html template for rendering the book info
-    private _cellTemplate: string = '';
+    //total number of books available for the feed, can be more than loaded in _data
+    private _total: number = 0;
+    //whether "loadmore" was raised and no data has been appended yet
+    private _moreRequested: boolean = false;
+    //custom cell renderer which takes over from the templates
+    private _renderItemCallback: BookCellRenderer | null = null;
     //carousel animation state
     private _carouselState: AnimationState = AnimationState.Stopped;
     //Browser Animatin object to control the animation: play/pause/stop
@@ -123,6 +420,72 @@ class EkDottCarousel extends HTMLElement {
     private _itemWidth: number = 0;
     //stub image url which is provided in the attribute "stub-image"
     private _stubImageUrl: string = "";
+    //covers, by their OpenLibrary path, already preloaded for the current feed
+    private _preloadedCovers: {[cover: string]: boolean} = {};
+    //covers for which OpenLibrary delivered its 1x1 blank image
+    private _blankCovers: {[cover: string]: boolean} = {};
+    //animation options as provided in the attributes "speed", "direction", "easing", "dwell" and "mode"
+    private _speed: {value: number, pxPerSecond: boolean} = {value: EkDottCarousel.DEFAULT_SPEED, pxPerSecond: false};
+    private _direction: ScrollDirection = ScrollDirection.Rtl;
+    private _easing: string = 'linear';
+    private _dwell: number = 0;
+    private _mode: ScrollMode = ScrollMode.Step;
+    //timer resting between the steps, and the frame request of the continuous mode
+    private _dwellTimer: number | null = null;
+    private _frameId: number | null = null;
+    //paused with the pause button, hovering or focusing must not resume it then
+    private _userPaused: boolean = false;
+    //prefers-reduced-motion media query, and whether play was pressed in spite of it
+    private _reducedMotion: MediaQueryList | null = null;
+    private _motionAllowed: boolean = false;
+    //book details overlay: the element focused before it opened and the description request
+    private _detailReturnFocus: HTMLElement | null = null;
+    private _detailAbortController: AbortController | null = null;
+    //manual steps queued one after another, and how many are not finished yet
+    private _stepQueue: Promise<void> = Promise.resolve();
+    private _pendingSteps: number = 0;
+    //whether the last drag moved the list, so that the click ending it is swallowed
+    private _dragMoved: boolean = false;
+    //re-layouts when the width of the carousel changes
+    private _resizeObserver: ResizeObserver | null = null;
+    //pauses the carousel while it is scrolled out of the viewport
+    private _intersectionObserver: IntersectionObserver | null = null;
+    private _offscreen: boolean = false;
+    //listeners added while connected, removed again on disconnect
+    private _listeners: {target: EventTarget, type: string, listener: EventListener, options?: boolean}[] = [];
+    private _reducedMotionListener: () => void = () => this._reducedMotionChange();
+    //state to continue with when the element is attached again after being moved in the DOM
+    private _detachedState: AnimationState = AnimationState.Stopped;
+    //pointer drag in progress: its pointer, the offset it is at and recent positions to compute the velocity
+    private _drag: {pointerId: number, lastPosition: number, offset: number, moved: boolean, track: {position: number, time: number}[]} | null = null;
+    //element whose search events feed the carousel, as referenced by the attribute "source"
+    private _source: BookSearchSource | null = null;
+    //listeners of the source events, kept to unsubscribe them later
+    private _sourceListeners: {[type: string]: EventListener} = {
+        searchstart: (event: Event) => {
+            //the next pages load in the background
+            (<BookSearchEvent> event).detail.page === 1 && this._setFeedState(FeedState.Loading);
+        },
+        searchdone: (event: Event) => {
+            const {data, total} = (<BookSearchEvent> event).detail;
+            this.setFeed(data, true, total);
+        },
+        searchpage: (event: Event) => this.appendFeed((<BookSearchEvent> event).detail.data),
+        searcherror: (event: Event) => {
+            //a failed next page keeps the books loaded so far
+            if ((<BookSearchEvent> event).detail.page === 1) {
+                this.stop();
+                this._setFeedState(FeedState.Error);
+            }
+        },
+        searchabort: () => this._setFeedState(this._data ? FeedState.Ready : FeedState.Idle),
+        voicecommand: (event: Event) => this._voiceCommand(<VoiceCommandEvent> event)
+    };
+    //listener asking the source for more data
+    private _loadMoreListener: EventListener = () => {
+        this._source && this._source.loadMore();
+    };
+
     /**
      * Class constructor. Attaches shadow root to where it palces al internal HTML elements.
      *
@@ -135,20 +498,44 @@ class EkDottCarousel extends HTMLElement {
 
         //defines internal styles and html elements of which this web component is composed
         (<ShadowRoot> this.shadowRoot).innerHTML = `
+        ${themeStyles}
         ${componentStyles}
         <div id="carousel">
+            <button id="prev" class="nav" type="button" aria-label="Previous book">&lsaquo;</button>
             <ul id="list">
             </ul>
+            <button id="next" class="nav" type="button" aria-label="Next book">&rsaquo;</button>
+            <button id="toggle" class="nav" type="button" aria-label="Play carousel">&#9654;</button>
+            <div id="announcer" class="visually-hidden" aria-live="polite" aria-atomic="true"></div>
+            <div id="loading" class="state-panel" aria-hidden="true">
+                <slot name="loading"><ul id="skeleton" part="skeleton"></ul></slot>
+            </div>
+            <div id="empty" class="state-panel">
+                <slot name="empty"><p class="state-message" part="empty">No books found</p></slot>
+            </div>
+            <div id="error" class="state-panel">
+                <slot name="error"><p class="state-message" part="error">The books could not be loaded.</p></slot>
+            </div>
         </div>
-        `;
-
-        this._cellTemplate = `
-            <div class="cell">
-                <a href="$$key" target="_blank">
-                    <img class="cover" src="$$image"/>
+        <div id="detail" hidden>
+            <div id="detail-content" role="dialog" aria-modal="true" aria-labelledby="detail-title">
+                <button id="detail-close" type="button" aria-label="Close">&times;</button>
+                <img id="detail-cover" alt="" />
+                <div id="detail-info">
+                    <h2 id="detail-title"></h2>
+                    <dl id="detail-fields"></dl>
+                    <p id="detail-description"></p>
+                </div>
+            </div>
+        </div>
+        <template id="cell-template">
+            <div class="cell" part="cell">
+                <a data-bind-href="link" target="_blank" rel="noopener" part="link">
+                    <img class="cover" part="cover" data-bind-src="image" data-bind-srcset="srcset" data-bind-sizes="sizes" data-bind-alt="title"/>
                 </a>
-                <span class="title-author">$$author</span>
+                <span class="title-author" part="caption" data-bind="caption"></span>
             </div>
+        </template>
         `;
     }
 
@@ -161,15 +548,118 @@ class EkDottCarousel extends HTMLElement {
      */
     connectedCallback(): void {
         this.carouselList = <HTMLUListElement> (<ShadowRoot> this.shadowRoot).querySelector("#list");
-        this.carouselList.addEventListener('mouseover', this.pause.bind(this));
-        this.carouselList.addEventListener('mouseout', this.start.bind(this));
+        this._listen(this.carouselList, 'mouseover', () => this.pause());
+        this._listen(this.carouselList, 'mouseout', () => this._autoResume());
+        this._listen(this, 'focusin', () => this.pause());
+        this._listen(this, 'focusout', this._focusOut.bind(this));
+        const shadowRoot = <ShadowRoot> this.shadowRoot;
+        const carousel = <HTMLDivElement> shadowRoot.querySelector("#carousel");
+        this._listen(<HTMLButtonElement> shadowRoot.querySelector("#prev"), 'click', () => this.previous());
+        this._listen(<HTMLButtonElement> shadowRoot.querySelector("#next"), 'click', () => this.next());
+        this._listen(<HTMLButtonElement> shadowRoot.querySelector("#toggle"), 'click', () => this._toggleClick());
+        this._listen(carousel, 'pointerdown', (event: Event) => this._dragStart(<PointerEvent> event));
+        this._listen(carousel, 'pointermove', (event: Event) => this._dragMove(<PointerEvent> event));
+        this._listen(carousel, 'pointerup', (event: Event) => this._dragEnd(<PointerEvent> event));
+        this._listen(carousel, 'pointercancel', (event: Event) => this._dragEnd(<PointerEvent> event));
+        //a drag should not open the book under the pointer
+        this._listen(carousel, 'click', this._dragClick.bind(this), true);
+        this._listen(carousel, 'dragstart', (event: Event) => event.preventDefault());
+        this._listen(this.carouselList, 'click', this._coverClick.bind(this));
+        this._listen(<HTMLButtonElement> shadowRoot.querySelector("#detail-close"), 'click', () => this.closeDetail());
+        const detail = <HTMLDivElement> shadowRoot.querySelector("#detail");
+        this._listen(detail, 'click', (event: Event) => event.target === detail && this.closeDetail());
+        this._listen(detail, 'keydown', (event: Event) => this._detailKeyDown(<KeyboardEvent> event));
+        this._listen(this, 'keydown', (event: Event) => this._keyDown(<KeyboardEvent> event));
+        this.hasAttribute('tabindex') || this.setAttribute('tabindex', '0');
+        this.setAttribute('role', 'region');
+        this.setAttribute('aria-roledescription', 'carousel');
+        this.setAttribute('aria-label', this.getAttribute('label') || 'Books');
+        //reduced motion turns the carousel into static manual mode
+        if (window.matchMedia) {
+            this._reducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)');
+            this._reducedMotion.addListener(this._reducedMotionListener);
+        }
         // Handle page visibility change  - this time only for Chrome
-        document.addEventListener('visibilitychange', this._visibilityChange.bind(this), false);
+        this._listen(document, 'visibilitychange', () => this._visibilityChange(), false);
+        //an element moved in the DOM keeps its books and its first visible one
+        const first: number = this._canScroll() ? this._firstIndex() : 0;
         //init list items with 3 by default or from attributes
         //add attributes
-        this._numberItems = parseInt(this.getAttribute('items') || "3", 10);
+        this._requestedItems = this._numberItems = this._itemsForWidth(carousel.clientWidth);
+        carousel.dataset.size = this._sizeName(carousel.clientWidth);
         this._stubImageUrl = this.getAttribute('stub-image') || ""
+        this._readAnimationOptions();
         this._createList();
+        this._data && this._fillList();
+        first > 0 && this._canScroll() && this._renderFrom(first);
+        this._subscribe(this.getAttribute('source'));
+        //the container, not only the window, may change the width of the carousel
+        const ResizeObserverConstructor = (<ResizeObserverWindow> window).ResizeObserver;
+        if (ResizeObserverConstructor) {
+            this._resizeObserver = new ResizeObserverConstructor(() => this._resize());
+            this._resizeObserver.observe(carousel);
+        } else {
+            this._listen(window, 'resize', () => this._resize());
+        }
+        if (typeof IntersectionObserver !== "undefined") {
+            this._intersectionObserver = new IntersectionObserver(this._intersectionChange.bind(this));
+            this._intersectionObserver.observe(this);
+        }
+        this._restoreState(this._detachedState);
+        this._syncControls();
+    }
+
+    /**
+     * Web Component lifecycle method where we can clean up after the component.
+     * It stops the animation and removes every listener and observer,
+     * remembering the state in case the element is attached again.
+     *
+     * @type  {function}
+     * @params {void} 
+     * @returns {void}
+     */
+    disconnectedCallback(): void {
+        this._detachedState = this._carouselState;
+        this.stop();
+        this.closeDetail();
+        this._unsubscribe();
+        this._unlisten();
+        this._reducedMotion && this._reducedMotion.removeListener(this._reducedMotionListener);
+        this._reducedMotion = null;
+        this._resizeObserver && this._resizeObserver.disconnect();
+        this._resizeObserver = null;
+        this._intersectionObserver && this._intersectionObserver.disconnect();
+        this._intersectionObserver = null;
+        this._offscreen = false;
+    }
+
+    /**
+     * Adds the listener and records it, so _unlisten can remove it on disconnect.
+     *
+     * @access private
+     * @type  {function}
+     * @params {EventTarget} target
+     * @params {string} type of the event
+     * @params {EventListener} listener
+     * @params {boolean?} options Optional capture flag
+     * @returns {void}
+     */
+    private _listen(target: EventTarget, type: string, listener: EventListener, options?: boolean) {
+        target.addEventListener(type, listener, options);
+        this._listeners.push({target, type, listener, options});
+    }
+
+    /**
+     * Removes all listeners added with _listen.
+     *
+     * @access private
+     * @type  {function}
+     * @params {void}
+     * @returns {void}
+     */
+    private _unlisten() {
+        this._listeners.forEach(({target, type, listener, options}) => target.removeEventListener(type, listener, options));
+        this._listeners = [];
     }
 
     /**
@@ -186,252 +676,1595 @@ class EkDottCarousel extends HTMLElement {
         if (name === 'stub-image') {
             this._stubImageUrl = newValue;
         } else
+        if (name === 'label') {
+            this.setAttribute('aria-label', newValue || 'Books');
+        } else
+        if (name === 'source' && this.isConnected) {
+            this._subscribe(newValue);
+        } else
         if (name === 'items' && this.carouselList) {
-            this._numberItems = parseInt(newValue, 10);
-            const carouselState = this._carouselState;
-            //this will change the state
-            this.stop();
-            //re-create layout
-            this._createList();
-            this._fillList();
-
-            switch (carouselState) {
-                case AnimationState.Playing: {
-                    this.start();
-                    break;
-                }
-                case AnimationState.Paused: {
-                    this.start();
-                    this.pause();
-                    break;
-                }
-                case AnimationState.Stopped: 
-                default: break;
+            this._requestedItems = this._itemsForWidth((<HTMLDivElement> this.carouselList.parentElement).clientWidth);
+            this._relayout();
+        } else
+        if (name === 'overflow' && this.carouselList) {
+            this._relayout();
+        } else
+        if (name === 'direction' && this.carouselList) {
+            this._readAnimationOptions();
+            this._relayout();
+        } else
+        if (['speed', 'easing', 'dwell', 'mode'].indexOf(name) !== -1 && this.carouselList) {
+            this._readAnimationOptions();
+            //continue from the current position with the new options
+            if (this._carouselState === AnimationState.Playing && this._pendingSteps === 0 && !this._drag) {
+                this._advance();
             }
         }
     }
 
     /**
-     * Whenever an attribute changes from ouside, we need to tell 
-     * which attributes we want to observe for a change.
+     * Re-creates the layout and refills it, keeping the first visible book and the animation state.
      *
-     * @access static
+     * @access private
      * @type  {function}
-     * @params {void} 
-     * @returns {string[]} Array of attributes as strings which we want to observe for changes
+     * @params {void}
+     * @returns {void}
      */
-    static get observedAttributes(): string[] {
-        //if anybody changes the placeholder from JS, we can observe it
-        return ['items', 'stub-image'];
+    private _relayout() {
+        const carouselState = this._carouselState;
+        const first: number = this._canScroll() ? this._firstIndex() : 0;
+        //this will change the state
+        this.stop();
+        //re-create layout
+        this._createList();
+        this._data && this._fillList();
+        first > 0 && this._canScroll() && this._renderFrom(first);
+        this._restoreState(carouselState);
     }
 
     /**
-     * Whenever the page is put in the background, we need to pause the carousel.
-     * 
+     * Brings the stopped carousel back to the animation state.
+     *
      * @access private
      * @type  {function}
-     * @params {void} 
+     * @params {AnimationState} carouselState
+     * @returns {void}
      */
-    private _visibilityChange() {
-        if (document.hidden) {
-            this.pause();
-        } else {
-            this.start();
+    private _restoreState(carouselState: AnimationState) {
+        switch (carouselState) {
+            case AnimationState.Playing: {
+                this.start();
+                break;
+            }
+            case AnimationState.Paused: {
+                this.start();
+                this.pause();
+                break;
+            }
+            case AnimationState.Stopped: 
+            default: break;
         }
     }
- 
+
     /**
-     * Creates a number of empty LI elements for the carousel.
-     * 
+     * Follows the width of the carousel: a new number of items re-creates the layout,
+     * otherwise the cells are resized in place and the list keeps its relative offset,
+     * so a running animation continues from the same point.
+     *
      * @access private
      * @type  {function}
-     * @params {void} 
+     * @params {void}
+     * @returns {void}
      */
-    private _createList() {
-        //clear potentially stale items
-        (<HTMLUListElement> this.carouselList).innerHTML = "";
-        this._itemWidth = Math.round((<HTMLUListElement> this.carouselList).clientWidth / this._numberItems);
-        //add numberItems+2 li elements to ul to have 2 buffer elements offscreen
-        Array(this._numberItems + 2).fill(0).map(() => {
-            const li: HTMLLIElement = document.createElement('li');
-            li.style.setProperty('width', `${this._itemWidth}px`);
-            (<HTMLUListElement> this.carouselList).appendChild(li);
-        });
-
-        //adjust width in % for UL list so taht only numberOfItems were on screen
-        //and the other 2 background cells were off.
-        (<HTMLUListElement> this.carouselList).style.setProperty('width', `${Math.floor(100*(this._numberItems+2)/this._numberItems)}%`);
+    private _resize() {
+        const list = this.carouselList;
+        const carousel = list && <HTMLDivElement> list.parentElement;
+        //a hidden carousel has no width to lay out
+        if (!list || !carousel || carousel.clientWidth === 0) {
+            return;
+        }
+        const width: number = carousel.clientWidth;
+        carousel.dataset.size = this._sizeName(width);
+        const numberItems: number = this._itemsForWidth(width);
+        if (numberItems !== this._requestedItems) {
+            this._requestedItems = numberItems;
+            this._relayout();
+            return;
+        }
+        const itemWidth: number = this._direction === ScrollDirection.Vertical ? width : Math.round(width / this._numberItems);
+        if (itemWidth === this._itemWidth) {
+            this._fitHeight();
+            return;
+        }
+        //a manual step or a drag ends at a whole item anyway, only the animation is rescaled
+        const rescale: boolean = this._pendingSteps === 0 && !this._drag;
+        const oldSize: number = this._itemSize();
+        const offset: number = rescale ? this._holdAnimation() : 0;
+        this._itemWidth = itemWidth;
+        (<HTMLLIElement[]> Array.from(list.children)).forEach((li) => li.style.setProperty('width', `${itemWidth}px`));
+        list.querySelectorAll('img[sizes]').forEach((image) => image.setAttribute('sizes', `${itemWidth}px`));
+        this._fitHeight();
+        if (rescale) {
+            list.style.transform = this._translate(oldSize > 0 ? offset * this._itemSize() / oldSize : 0);
+            this._carouselState === AnimationState.Playing && this._advance();
+        }
     }
 
     /**
-     * Calculates what the book cover URl should be 
-     * from provided CoverID or ISBN,
-     * if non available it uses stub URL from attributes.
-     * 
+     * Number of visible items for the width of the carousel from the "items" attribute,
+     * e.g. "1 sm:2 md:3 lg:5" - the value of the widest breakpoint not wider than the carousel,
+     * a value without prefix applies from 0. Invalid values fall back to 3.
+     *
      * @access private
      * @type  {function}
-     * @params {Book} Book item
-     * @return {string} Book cover URL
+     * @params {number} width of the carousel in px
+     * @returns {number}
      */
-    private _composeImageUrl(book: Book): string {
-        //check viewport size here and construct the image url
-        const coverPath: string = 'http://covers.openlibrary.org/b/';
-        const {clientWidth} = document.documentElement; //viewport width
-        const sizeSuffix: string = clientWidth <500 ? "S" : (clientWidth <1080) ? "M" : "L";
-
-        //only searching for cover_i and isbn covers for simplicity
-        //not found cover will deliver blank image 1x1
-        let imgUrl: string = "";
-        const {cover_i, isbn} = book;
-        if (typeof cover_i !== "undefined") {
-            imgUrl = `${coverPath}id/${cover_i}-${sizeSuffix}.jpg`;
-        } else 
-        if (typeof isbn !== "undefined" && (<Array <string>> isbn).length> 0) {
-            imgUrl = `${coverPath}isbn/${(<Array<string>>isbn)[0]}-${sizeSuffix}.jpg?default=false`;
-        } else 
-        if (this._stubImageUrl !== "") {
-            imgUrl = this._stubImageUrl;
-        } else {
-            imgUrl = EkDottCarousel.DEFAULT_IMAGE; //fall back to a dummy image
-        }
-        return imgUrl;
-    };
+    private _itemsForWidth(width: number): number {
+        let items: number = 3;
+        let minWidth: number = -1;
+        (this.getAttribute('items') || "").trim().split(/\s+/).forEach((token) => {
+            const match = /^(?:([a-z]+):)?(\d+)$/.exec(token);
+            const breakpoint: number | undefined = match ? (match[1] ? EkDottCarousel.BREAKPOINTS[match[1]] : 0) : undefined;
+            const value: number = match ? parseInt(match[2], 10) : 0;
+            if (typeof breakpoint !== "undefined" && value > 0 && breakpoint <= width && breakpoint >= minWidth) {
+                items = value;
+                minWidth = breakpoint;
+            }
+        });
+        return items;
+    }
 
     /**
-     * Renders content of one cell in the list.
-     * 
+     * Name of the widest breakpoint not wider than the carousel, "xs" below all of them.
+     * It is reflected as data-size on the container and picks the cell heights.
+     *
      * @access private
      * @type  {function}
-     * @params {Book} Book item 
-     * @return {string} HTML representation of the DOM content
-      */
-    private _fillItem(item: Book): string {
-        const {author_name, title, key} = item;
-        return this._cellTemplate
-        .replace('$$key', `https://openlibrary.org${key || ""}`)
-        .replace('$$image', this._composeImageUrl(item))
-        .replace('$$author', `${title} by ${author_name || ""}`);
+     * @params {number} width of the carousel in px
+     * @returns {string}
+     */
+    private _sizeName(width: number): string {
+        let name: string = 'xs';
+        let minWidth: number = -1;
+        Object.keys(EkDottCarousel.BREAKPOINTS).forEach((breakpoint) => {
+            const value: number = EkDottCarousel.BREAKPOINTS[breakpoint];
+            if (value <= width && value > minWidth) {
+                name = breakpoint;
+                minWidth = value;
+            }
+        });
+        return name;
     }
 
     /**
-     * If the server responds wtih 404 for the book cover.
-     * We can catch onerror of the <img> element 
-     * and place stub URL in it.
-     * 
+     * Reads the animation options from the attributes, falling back to the defaults for invalid values.
+     *
      * @access private
      * @type  {function}
-     * @params {HTMLLIElement} The <li> element where the image is located 
+     * @params {void}
+     * @returns {void}
      */
-    private _fixImageUrl(li: HTMLLIElement) {
-        //need to handle a case where URL appears valid but OpenLibrary responds wtih 404
-        const image: HTMLImageElement = <HTMLImageElement> li.querySelector('img');
-        const stubImg = this._stubImageUrl;
-        image.onerror = function() {
-            //we need this = image here
-            this.src = stubImg || EkDottCarousel.DEFAULT_IMAGE;
+    private _readAnimationOptions() {
+        const speed = /^\s*(\d+(?:\.\d+)?)\s*(ms|px\/s)?\s*$/.exec(this.getAttribute('speed') || "");
+        this._speed = speed && parseFloat(speed[1]) > 0
+            ? {value: parseFloat(speed[1]), pxPerSecond: speed[2] === 'px/s'}
+            : {value: EkDottCarousel.DEFAULT_SPEED, pxPerSecond: false};
+
+        const direction = <ScrollDirection> this.getAttribute('direction');
+        this._direction = [ScrollDirection.Ltr, ScrollDirection.Vertical].indexOf(direction) !== -1 ? direction : ScrollDirection.Rtl;
+
+        this._easing = this.getAttribute('easing') || 'linear';
+        try {
+            //animate() throws a TypeError for an invalid easing, better on a throwaway element than in every step
+            document.createElement('div').animate([], {duration: 0, easing: this._easing}).cancel();
+        } catch (error) {
+            this._easing = 'linear';
         }
+
+        const dwell: number = parseInt(this.getAttribute('dwell') || "0", 10);
+        this._dwell = isNaN(dwell) || dwell < 0 ? 0 : dwell;
+
+        this._mode = this.getAttribute('mode') === ScrollMode.Continuous ? ScrollMode.Continuous : ScrollMode.Step;
     }
-    
+
     /**
-     * Fills the list with the information from the provided data.
-     * 
-     * @access private
+     * Whenever an attribute changes from ouside, we need to tell 
+     * which attributes we want to observe for a change.
+     *
+     * @access static
      * @type  {function}
-     * @params {void}
+     * @params {void} 
+     * @returns {string[]} Array of attributes as strings which we want to observe for changes
      */
-    private _fillList() {
-        const liArray: NodeListOf <HTMLLIElement> = (<ShadowRoot> this.shadowRoot).querySelectorAll("li");
-        liArray.forEach((li, ind) => {
-            //what if we have empty array or 2 items only and 4 LI elements?
-            if (ind <(<Book[]> this._data).length) {
-                li.innerHTML = this._fillItem((<Book[]> this._data)[ind]);
-                this._fixImageUrl(li);
-            }
-        });
-        this._dataCursor = liArray.length;
+    static get observedAttributes(): string[] {
+        //if anybody changes the placeholder from JS, we can observe it
+        return ['items', 'stub-image', 'source', 'speed', 'direction', 'easing', 'dwell', 'mode', 'label', 'overflow'];
     }
 
     /**
-     * When the carousel has scrolled one item offscreen.
-     * This adds new <li> at the end of the existing <li>.
+     * Subscribes to the search events of the element with the given id.
+     * The element is looked up in the same document or shadow root as the carousel,
+     * if it is not parsed yet the lookup is repeated once the document is loaded.
      * 
      * @access private
      * @type  {function}
-     * @params {void}
+     * @params {string | null} id of the source element, null only unsubscribes
      */
-    private _addNewItem() {
-        if (this._carouselState === AnimationState.Playing) {
-            this._dataCursor = ++this._dataCursor % (<Book[]> this._data).length;
-            const child = (<HTMLUListElement> this.carouselList).firstElementChild;
-            if (child) {
-                //remove first UL child  = LI and add another one LI at the end
-                const li = document.createElement('li');
-                li.style.setProperty('width', `${this._itemWidth}px`);
-                (<HTMLUListElement> this.carouselList).removeChild(child);
-                li.innerHTML = this._fillItem((<Book[]> this._data)[this._dataCursor]);
-                this._fixImageUrl(li);
-                (<HTMLUListElement> this.carouselList).appendChild(li);
-
-                this._advance(); // start next animation frame
+    private _subscribe(id: string | null) {
+        this._unsubscribe();
+        if (!id) {
+            return;
+        }
+        const root = <Document | ShadowRoot> this.getRootNode();
+        const source = <BookSearchSource | null> (root.getElementById ? root.getElementById(id) : document.getElementById(id));
+        if (!source) {
+            if (document.readyState === 'loading') {
+                document.addEventListener('DOMContentLoaded', () => {
+                    //a carousel removed meanwhile subscribes again when it is attached
+                    this.isConnected && this.getAttribute('source') === id && this._subscribe(id);
+                }, {once: true});
             }
+            return;
         }
+        this._source = source;
+        Object.keys(this._sourceListeners).forEach((type) => {
+            source.addEventListener(type, this._sourceListeners[type]);
+        });
+        this.addEventListener('loadmore', this._loadMoreListener);
     }
 
     /**
-     * Starts moving next animation slide.
-     * onFinish of the Animation we add a new <li> to the end and restart the sequence.
+     * Unsubscribes from the events of the current source.
      * 
      * @access private
      * @type  {function}
      * @params {void}
      */
-    private _advance() {
-        if (this._carouselState === AnimationState.Playing) {
-            const {clientWidth} = <HTMLLIElement> (<HTMLUListElement> this.carouselList).firstElementChild;
-            const aniStyle = [
-                {
-                    transform: 'translateX(0px)'
-                },
-                {
-                    transform: `translateX(${-clientWidth}px)`
-                }
-            ];
-            const aniTiming: KeyframeAnimationOptions = {
-                duration: 3000,
-                iterations: 1,
-                fill: 'forwards'
-            };
-            this._animation = (<HTMLUListElement> this.carouselList).animate(aniStyle, aniTiming);
-            this._animation.onfinish = this._addNewItem.bind(this);
+    private _unsubscribe() {
+        const source = this._source;
+        if (source) {
+            Object.keys(this._sourceListeners).forEach((type) => {
+                source.removeEventListener(type, this._sourceListeners[type]);
+            });
+            this.removeEventListener('loadmore', this._loadMoreListener);
+            this._source = null;
         }
     }
 
     /**
-     * Sets the carousel data to be the provided array of Book[].
-     * Fills the earlier created <li> elements with data from an html template. 
+     * Reflects the feed state into the attribute "state" so that pages can style it.
      * 
-     * @access public
+     * @access private
      * @type  {function}
-     * @params {Book[]} Array of data to be used by teh carousel
-     * @params {autostart?} Optional boolean , true=start carousel 
+     * @params {FeedState} state
      */
-    public setFeed(data: Book[] = [], autostart?: boolean) {
-        this._data = data;
-        this._createList();
-        this._fillList();
-        autostart && this.start();
+    private _setFeedState(state: FeedState) {
+        this.setAttribute('state', state);
+        state === FeedState.Loading && this._renderSkeleton();
+        //the panels are announced as they show up
+        state === FeedState.Empty && this._announce(this._stateMessage('empty'));
+        state === FeedState.Error && this._announce(this._stateMessage('error'));
     }
 
     /**
-     * Starts scrolling the carousel.
+     * Fills the built-in content of the "loading" slot with a skeleton cell per visible item.
      * 
-     * @access public
+     * @access private
      * @type  {function}
      * @params {void}
      */
-    public start() {
-        //let's chec if we can start animating = have data and enough itms
-        if (this._data && this._data.length> this._numberItems) {
+    private _renderSkeleton() {
+        const skeleton = <HTMLUListElement> (<ShadowRoot> this.shadowRoot).querySelector("#skeleton");
+        skeleton.innerHTML = "";
+        for (let item = 0; item < this._requestedItems; item++) {
+            const li: HTMLLIElement = document.createElement('li');
+            li.innerHTML = `<div class="skeleton-cover"></div><div class="skeleton-caption"></div>`;
+            skeleton.appendChild(li);
+        }
+    }
+
+    /**
+     * Text of the slotted or the built-in content of the state panel.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {string} state "empty" or "error"
+     * @return {string}
+     */
+    private _stateMessage(state: string): string {
+        const slot = <HTMLSlotElement> (<ShadowRoot> this.shadowRoot).querySelector(`#${state} slot`);
+        const assigned: Node[] = slot.assignedNodes({flatten: true});
+        const nodes: Node[] = assigned.length > 0 ? assigned : Array.from(slot.childNodes);
+        return nodes.map((node) => node.textContent || "").join(" ").trim();
+    }
+
+    /**
+     * Acts on the voice commands of the source: scrolls a page of books,
+     * pauses and resumes like the pause/play button, and empties on "clear".
+     * 
+     * @access private
+     * @type  {function}
+     * @params {VoiceCommandEvent} event
+     */
+    private _voiceCommand(event: VoiceCommandEvent) {
+        switch (event.detail.name) {
+            case 'nextpage': {
+                this._canScroll() && this.goTo(this._firstIndex() + this._numberItems);
+                break;
+            }
+            case 'previouspage': {
+                this._canScroll() && this.goTo(this._firstIndex() - this._numberItems);
+                break;
+            }
+            case 'pause': {
+                this._userPaused = true;
+                this.pause();
+                break;
+            }
+            case 'resume': {
+                this._userPaused = false;
+                this._motionAllowed = true;
+                this.start();
+                break;
+            }
+            case 'clear': {
+                this.stop();
+                this.setFeed([]);
+                this._setFeedState(FeedState.Idle);
+                break;
+            }
+            default: break;
+        }
+    }
+
+    /**
+     * Whenever the page is put in the background, we need to pause the carousel.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     */
+    private _visibilityChange() {
+        if (document.hidden) {
+            this.pause();
+        } else {
+            this._autoResume();
+        }
+    }
+
+    /**
+     * Whenever the carousel is scrolled out of the viewport, we pause it as well,
+     * each instance on its own.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {IntersectionObserverEntry[]} entries
+     */
+    private _intersectionChange(entries: IntersectionObserverEntry[]) {
+        entries.forEach((entry) => {
+            this._offscreen = !entry.isIntersecting;
+            if (this._offscreen) {
+                this.pause();
+            } else {
+                this._autoResume();
+            }
+        });
+    }
+
+    /**
+     * Resumes the carousel paused by hovering, focus or the page visibility,
+     * unless it was paused with the pause button or is still hovered or focused.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     */
+    private _autoResume() {
+        const hovered: boolean = this.matches(':hover');
+        const focused: boolean = this.matches(':focus-within');
+        if (!this._userPaused && !hovered && !focused && !document.hidden && !this._offscreen) {
+            this.start();
+        }
+    }
+
+    /**
+     * Resumes when the focus leaves the carousel.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {FocusEvent} event
+     */
+    private _focusOut(event: Event) {
+        const next = <Node | null> (<FocusEvent> event).relatedTarget;
+        if (!next || !this.contains(next) && !(<ShadowRoot> this.shadowRoot).contains(next)) {
+            //focus is not moving inside, but :focus-within still matches during focusout
+            setTimeout(this._autoResume.bind(this), 0);
+        }
+    }
+
+    /**
+     * The pause/play button pauses until pressed again,
+     * pressing play also overrides the reduced motion preference.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     */
+    private _toggleClick() {
+        if (this._carouselState === AnimationState.Playing) {
+            this._userPaused = true;
+            this.pause();
+        } else {
+            this._userPaused = false;
+            this._motionAllowed = true;
+            this.start();
+        }
+    }
+
+    /**
+     * Pauses when the user starts preferring reduced motion, resumes when they stop.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     */
+    private _reducedMotionChange() {
+        this._motionAllowed = false;
+        if (this._prefersReducedMotion()) {
+            this.pause();
+        } else {
+            this._autoResume();
+        }
+    }
+
+    /**
+     * Tells whether the user prefers reduced motion.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     * @returns {boolean}
+     */
+    private _prefersReducedMotion(): boolean {
+        return !!this._reducedMotion && this._reducedMotion.matches;
+    }
+
+    /**
+     * Reflects the animation state in the pause/play button and the live region,
+     * which only announces while the carousel is not scrolling by itself.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     */
+    private _syncControls() {
+        const shadowRoot = <ShadowRoot> this.shadowRoot;
+        const toggle = <HTMLButtonElement> shadowRoot.querySelector("#toggle");
+        const playing: boolean = this._carouselState === AnimationState.Playing;
+        toggle.innerHTML = playing ? "&#10074;&#10074;" : "&#9654;";
+        toggle.setAttribute('aria-label', playing ? "Pause carousel" : "Play carousel");
+        (<HTMLDivElement> shadowRoot.querySelector("#announcer")).setAttribute('aria-live', playing ? "off" : "polite");
+    }
+
+    /**
+     * Announces the message, by default the first visible book, through the live region.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {string?} message Optional text to announce
+     */
+    private _announce(message?: string) {
+        const first = <HTMLLIElement | null> (<HTMLUListElement> this.carouselList).firstElementChild;
+        (<HTMLDivElement> (<ShadowRoot> this.shadowRoot).querySelector("#announcer")).textContent =
+            typeof message === "string" ? message : first ? first.getAttribute('aria-label') : "";
+    }
+
+    /**
+     * Hides the buffer cells offscreen from assistive technologies and the tab order.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     */
+    private _updateHiddenItems() {
+        const items = (<HTMLUListElement> this.carouselList).children;
+        Array.prototype.forEach.call(items, (li: HTMLLIElement, ind: number) => {
+            const hidden: boolean = ind >= this._numberItems;
+            li.setAttribute('aria-hidden', String(hidden));
+            li.querySelectorAll('a').forEach((link) => link.setAttribute('tabindex', hidden ? '-1' : '0'));
+        });
+    }
+ 
+    /**
+     * Creates a number of empty LI elements for the carousel.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     */
+    private _createList() {
+        const list = <HTMLUListElement> this.carouselList;
+        const vertical: boolean = this._direction === ScrollDirection.Vertical;
+        this._updateOverflow();
+        list.style.removeProperty('width');
+        list.style.transform = "";
+        this._itemWidth = vertical
+            ? (<HTMLDivElement> list.parentElement).clientWidth
+            : Math.round((<HTMLDivElement> list.parentElement).clientWidth / this._numberItems);
+        //numberItems+2 li elements in ul to have 2 buffer elements offscreen,
+        //the existing ones are kept as the pool of cells and only added or removed to match
+        while (list.children.length > this._numberItems + 2) {
+            list.removeChild(<Element> list.lastElementChild);
+        }
+        while (list.children.length < this._numberItems + 2) {
+            list.appendChild(document.createElement('li'));
+        }
+        (<HTMLLIElement[]> Array.from(list.children)).forEach((li) => li.style.setProperty('width', `${this._itemWidth}px`));
+
+        if (!vertical) {
+            //adjust width in % for UL list so taht only numberOfItems were on screen
+            //and the other 2 background cells were off.
+            list.style.setProperty('width', `${Math.floor(100*(this._numberItems+2)/this._numberItems)}%`);
+        }
+        this._fitHeight();
+        list.style.transform = this._translate(0);
+    }
+
+    /**
+     * Picks how the feed is shown when it has fewer books than the visible items,
+     * from the "overflow" attribute: "center" (default) shows them in the middle without scrolling,
+     * "shrink" widens them to fill the carousel and "loop" repeats them to scroll seamlessly.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     * @return {OverflowMode}
+     */
+    private _pickOverflow(): OverflowMode {
+        const length: number = this._data ? this._data.length : 0;
+        if (length === 0 || length >= this._requestedItems) {
+            return OverflowMode.None;
+        }
+        const overflow = <OverflowMode> this.getAttribute('overflow');
+        return [OverflowMode.Shrink, OverflowMode.Loop].indexOf(overflow) !== -1 ? overflow : OverflowMode.Center;
+    }
+
+    /**
+     * Applies the overflow mode to the number of visible items, reflects it as "overflow-mode"
+     * and raises "overflowmode" when it changes.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     */
+    private _updateOverflow() {
+        const overflow: OverflowMode = this._pickOverflow();
+        this._numberItems = overflow === OverflowMode.Shrink ? (<Book[]> this._data).length : this._requestedItems;
+        if (overflow !== this._overflow) {
+            this._overflow = overflow;
+            this.setAttribute('overflow-mode', overflow);
+            const event: CarouselOverflowEvent = new CustomEvent('overflowmode', {
+                detail: {mode: overflow, length: this._data ? this._data.length : 0, items: this._requestedItems}
+            });
+            this.dispatchEvent(event);
+        }
+    }
+
+    /**
+     * In the vertical direction the container shows numberOfItems stacked cells
+     * and the other 2 are below, so its height follows the height of the cells.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void} 
+     */
+    private _fitHeight() {
+        const carousel = <HTMLDivElement> (<HTMLUListElement> this.carouselList).parentElement;
+        if (this._direction === ScrollDirection.Vertical) {
+            carousel.style.setProperty('height', `${this._itemSize() * this._numberItems}px`);
+        } else {
+            carousel.style.removeProperty('height');
+        }
+    }
+
+    /**
+     * Path of the book cover on covers.openlibrary.org from provided CoverID or ISBN,
+     * empty when there is none or OpenLibrary has only a blank image for it.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {Book} Book item
+     * @return {string} e.g. "id/12345" or "isbn/0123456789"
+     */
+    private _coverPath(book: Book): string {
+        //only searching for cover_i and isbn covers for simplicity
+        const {cover_i, isbn} = book;
+        let cover: string = "";
+        if (typeof cover_i !== "undefined") {
+            cover = `id/${cover_i}`;
+        } else 
+        if (typeof isbn !== "undefined" && (<Array <string>> isbn).length> 0) {
+            cover = `isbn/${(<Array<string>>isbn)[0]}`;
+        }
+        return this._blankCovers[cover] ? "" : cover;
+    }
+
+    /**
+     * URL of the book cover in the size, empty when the book has no cover.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {Book} Book item
+     * @params {string} size "S", "M" or "L"
+     * @return {string}
+     */
+    private _coverUrl(book: Book, size: string): string {
+        const cover: string = this._coverPath(book);
+        //ISBN covers answer 404 instead of a blank image when not found
+        return cover === "" ? "" : `http://covers.openlibrary.org/b/${cover}-${size}.jpg${cover.indexOf('isbn/') === 0 ? "?default=false" : ""}`;
+    }
+
+    /**
+     * Calculates what the book cover URl should be,
+     * if non available it uses stub URL from attributes.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {Book} Book item
+     * @params {string} Optional size "S", "M" (default) or "L"
+     * @return {string} Book cover URL
+     */
+    private _composeImageUrl(book: Book, size: string = "M"): string {
+        return this._coverUrl(book, size) || this._stubImageUrl || EkDottCarousel.DEFAULT_IMAGE;
+    }
+
+    /**
+     * Lists all sizes of the book cover for the srcset attribute, so the browser
+     * picks the one fitting the cell, empty for the stub image.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {Book} Book item
+     * @return {string}
+     */
+    private _composeImageSrcset(book: Book): string {
+        return this._coverPath(book) === "" ? "" : Object.keys(EkDottCarousel.COVER_WIDTHS)
+            .map((size) => `${this._coverUrl(book, size)} ${EkDottCarousel.COVER_WIDTHS[size]}w`)
+            .join(", ");
+    }
+
+    /**
+     * Loads the covers of the next books after the cursor, so they are in the cache
+     * before they scroll in. A blank cover found on the way is replaced with the stub image.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     */
+    private _preloadCovers() {
+        const data = this._data;
+        if (!data || data.length === 0) {
+            return;
+        }
+        for (let ahead = 1; ahead <= Math.min(EkDottCarousel.PRELOAD_COVERS, data.length); ahead++) {
+            const book: Book = data[(this._dataCursor + ahead) % data.length];
+            const cover: string = this._coverPath(book);
+            if (cover !== "" && !this._preloadedCovers[cover]) {
+                this._preloadedCovers[cover] = true;
+                //the same srcset and sizes as the cell make the browser choose the same file
+                const image: HTMLImageElement = new Image();
+                image.onload = () => image.naturalWidth <= 1 && (this._blankCovers[cover] = true);
+                image.sizes = `${this._itemWidth}px`;
+                image.srcset = this._composeImageSrcset(book);
+                image.src = this._composeImageUrl(book);
+            }
+        }
+    }
+
+    /**
+     * Renders content of one cell in the list:
+     * with the renderItem callback if set, otherwise from the <template> child
+     * or the built-in template with the data bound safely.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {Book} Book item 
+     * @params {number} Index of the book in the feed
+     * @return {Node} DOM content of the cell
+      */
+    private _fillItem(item: Book, index: number): Node {
+        if (this._renderItemCallback) {
+            return this._renderItemCallback(item, index);
+        }
+        const custom = <HTMLTemplateElement | undefined> Array.from(this.children).find((child) => child instanceof HTMLTemplateElement);
+        const template = custom || <HTMLTemplateElement> (<ShadowRoot> this.shadowRoot).querySelector("#cell-template");
+        const content = <DocumentFragment> document.importNode(template.content, true);
+        this._bindItem(content, item, index);
+        return content;
+    }
+
+    /**
+     * Binds the book fields into the cloned template, or into a cell already holding it,
+     * touching only the text and the attributes whose value changes.
+     * Values are only ever set as text or attribute values, never parsed as HTML,
+     * and javascript: URLs are dropped.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {ParentNode} content Cloned template or the <li> of the cell
+     * @params {Book} Book item 
+     * @params {number} Index of the book in the feed
+      */
+    private _bindItem(content: ParentNode, item: Book, index: number) {
+        const authors: string = item.author_name.join(", ");
+        const values: {[field: string]: any} = {
+            ...item,
+            image: this._composeImageUrl(item),
+            srcset: this._composeImageSrcset(item),
+            sizes: `${this._itemWidth}px`,
+            link: `https://openlibrary.org${item.key || ""}`,
+            author: authors,
+            caption: authors.length > 0 ? `${item.title} by ${authors}` : item.title,
+            position: index + 1
+        };
+        const format = (field: string): string => {
+            const value: any = values[field];
+            return Array.isArray(value) ? value.join(", ") : typeof value === "undefined" || value === null ? "" : String(value);
+        };
+        content.querySelectorAll("*").forEach((element) => {
+            Array.from(element.attributes).forEach(({name, value: field}) => {
+                if (name === 'data-bind') {
+                    const text: string = format(field);
+                    element.textContent !== text && (element.textContent = text);
+                } else
+                if (name.indexOf('data-bind-') === 0) {
+                    const attribute: string = name.slice('data-bind-'.length);
+                    const value: string = format(field);
+                    if (/^\s*javascript:/i.test(value)) {
+                        element.removeAttribute(attribute);
+                    } else
+                    if (element.getAttribute(attribute) !== value) {
+                        element.setAttribute(attribute, value);
+                    }
+                }
+            });
+        });
+    }
+
+    /**
+     * If the server responds wtih 404 for the book cover.
+     * We can catch onerror of the <img> element 
+     * and place stub URL in it, the same for the blank 1x1 image.
+     * It also makes the buffer cells load lazily and shows the blurred placeholder.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {HTMLLIElement} The <li> element where the image is located 
+     * @params {Book} The book rendered in the <li>
+     */
+    private _fixImageUrl(li: HTMLLIElement, book: Book) {
+        //need to handle a case where URL appears valid but OpenLibrary responds wtih 404
+        const image: HTMLImageElement | null = li.querySelector('img');
+        const stubImg = this._stubImageUrl || EkDottCarousel.DEFAULT_IMAGE;
+        const cover: string = this._coverPath(book);
+        //custom cells may have no image
+        if (!image) {
+            return;
+        }
+        //a recycled cell still has the handler and the placeholder of its previous book
+        image.onload = null;
+        image.classList.remove('loading');
+        image.style.removeProperty('background-image');
+        const useStub = () => {
+            image.removeAttribute('srcset');
+            image.src = stubImg;
+        };
+        //buffer cells are offscreen until they scroll in
+        const position: number = Array.prototype.indexOf.call((<HTMLUListElement> this.carouselList).children, li);
+        image.setAttribute('loading', position === -1 || position >= this._numberItems ? 'lazy' : 'eager');
+        image.onerror = useStub;
+        if (cover === "") {
+            return;
+        }
+        const loaded = () => {
+            image.classList.remove('loading');
+            image.style.removeProperty('background-image');
+            //OpenLibrary answers a missing cover with a 1x1 blank image
+            if (image.naturalWidth <= 1 && image.src.indexOf(stubImg) === -1) {
+                this._blankCovers[cover] = true;
+                useStub();
+            }
+        };
+        image.onload = loaded;
+        //a preloaded cover may come from the cache at once
+        if (image.complete && image.naturalWidth > 0) {
+            loaded();
+            return;
+        }
+        //the small cover, blurred, stands in until the cover is loaded
+        image.classList.add('loading');
+        image.style.backgroundImage = `url("${this._coverUrl(book, "S")}")`;
+    }
+    
+    /**
+     * Fills the list with the information from the provided data.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     */
+    private _fillList() {
+        const liArray = <HTMLLIElement[]> Array.from((<HTMLUListElement> this.carouselList).children);
+        const {length} = <Book[]> this._data;
+        const loop: boolean = this._overflow === OverflowMode.Loop;
+        liArray.forEach((li, ind) => {
+            //with fewer books than <li> elements they are either repeated to loop or left out
+            if (ind < length || loop && length > 0) {
+                this._renderItem(li, ind % length);
+            } else {
+                this._clearItem(li);
+            }
+        });
+        //pointing at the last rendered book
+        this._dataCursor = loop && length > 0 ? (liArray.length - 1) % length : liArray.length - 1;
+        this._preloadCovers();
+        this._fitHeight();
+        this._updateHiddenItems();
+    }
+
+    /**
+     * When the carousel has scrolled one item offscreen.
+     * This adds new <li> at the end of the existing <li>.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     */
+    private _addNewItem() {
+        if (this._carouselState === AnimationState.Playing) {
+            this._completeStep();
+            this._advance(); // start next animation frame
+        }
+    }
+
+    /**
+     * Ends the finished automatic step: drops the animation holding the list
+     * one item further, recycles the first <li> and puts the list back to the start.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     */
+    private _completeStep() {
+        this._holdAnimation();
+        this._recycleForward();
+        (<HTMLUListElement> this.carouselList).style.transform = this._translate(0);
+    }
+
+    /**
+     * Moves the first <li> to the end and renders the next book into it.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     */
+    private _recycleForward() {
+        const list = <HTMLUListElement> this.carouselList;
+        const li = <HTMLLIElement | null> list.firstElementChild;
+        if (li) {
+            this._moveCursor();
+            list.appendChild(li);
+            this._renderItem(li, this._dataCursor);
+            this._updateHiddenItems();
+        }
+    }
+
+    /**
+     * Moves the last <li> to the beginning and renders the previous book into it,
+     * the backward counterpart of _recycleForward.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     */
+    private _recycleBackward() {
+        const list = <HTMLUListElement> this.carouselList;
+        const li = <HTMLLIElement | null> list.lastElementChild;
+        if (li) {
+            const {length} = <Book[]> this._data;
+            const index: number = (this._firstIndex() - 1 + length) % length;
+            this._dataCursor = (this._dataCursor - 1 + length) % length;
+            list.insertBefore(li, list.firstElementChild);
+            this._renderItem(li, index);
+            this._updateHiddenItems();
+        }
+    }
+
+    /**
+     * Empties the <li> which has no book to show.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {HTMLLIElement} li
+     */
+    private _clearItem(li: HTMLLIElement) {
+        li.innerHTML = "";
+        delete li.dataset.index;
+        delete li.dataset.cell;
+        ['role', 'aria-roledescription', 'aria-label'].forEach((name) => li.removeAttribute(name));
+    }
+
+    /**
+     * Renders the book with the index in the feed into the <li>,
+     * labelled as a slide for assistive technologies.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {HTMLLIElement} li
+     * @params {number} index of the book
+     */
+    private _renderItem(li: HTMLLIElement, index: number) {
+        const book: Book = (<Book[]> this._data)[index];
+        if (!this._renderItemCallback && li.dataset.cell === 'template') {
+            //the cell already holds the template, only the changed fields are patched
+            this._bindItem(li, book, index);
+        } else {
+            li.innerHTML = "";
+            li.appendChild(this._fillItem(book, index));
+            this._renderItemCallback ? delete li.dataset.cell : li.dataset.cell = 'template';
+        }
+        this._fixImageUrl(li, book);
+        li.dataset.index = String(index);
+        li.setAttribute('role', 'group');
+        li.setAttribute('aria-roledescription', 'slide');
+        li.setAttribute('aria-label', `${index + 1} of ${this._total || (<Book[]> this._data).length}: ${book.title}`
+            + (book.author_name.length > 0 ? ` by ${book.author_name.join(", ")}` : ""));
+    }
+
+    /**
+     * When a cover is activated, raises "bookselect" and unless the host cancels it,
+     * shows the details instead of following the link. With link-mode="tab" the link opens as before.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {Event} event
+     */
+    private _coverClick(event: Event) {
+        const link = <HTMLAnchorElement | null> (<HTMLElement> event.target).closest('a');
+        //custom cells may contain lists of their own, the cell is a child of the carousel list
+        const li = <HTMLLIElement | undefined> (link && Array.from((<HTMLUListElement> this.carouselList).children)
+            .find((child) => child.contains(link)));
+        if (!link || !li || !this._data || typeof li.dataset.index === "undefined") {
+            return;
+        }
+        const index: number = parseInt(li.dataset.index, 10);
+        const selectEvent: BookSelectEvent = new CustomEvent('bookselect', {
+            detail: {book: this._data[index], index},
+            bubbles: true,
+            composed: true,
+            cancelable: true
+        });
+        const handled: boolean = !this.dispatchEvent(selectEvent);
+        if (handled || this.getAttribute('link-mode') !== 'tab') {
+            event.preventDefault();
+        }
+        if (!handled && this.getAttribute('link-mode') !== 'tab') {
+            this._detailReturnFocus = link;
+            this.showDetail(index);
+        }
+    }
+
+    /**
+     * Closes the details with Escape and keeps Tab inside the dialog.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {KeyboardEvent} event
+     */
+    private _detailKeyDown(event: KeyboardEvent) {
+        //the carousel arrow keys do not apply to the dialog
+        event.stopPropagation();
+        if (event.key === 'Escape') {
+            event.preventDefault();
+            this.closeDetail();
+        } else
+        if (event.key === 'Tab') {
+            //the close button is the only focusable element
+            event.preventDefault();
+        }
+    }
+
+    /**
+     * Index in the feed of the book rendered in the first <li>.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     * @return {number}
+     */
+    private _firstIndex(): number {
+        const {length} = <Book[]> this._data;
+        const count: number = (<HTMLUListElement> this.carouselList).children.length;
+        return ((this._dataCursor - count + 1) % length + length) % length;
+    }
+
+    /**
+     * Size in px of one scrolling step.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     * @return {number}
+     */
+    private _itemSize(): number {
+        const first = <HTMLLIElement | null> (<HTMLUListElement> this.carouselList).firstElementChild;
+        if (!first) {
+            return this._itemWidth;
+        }
+        return this._direction === ScrollDirection.Vertical ? first.clientHeight : first.clientWidth;
+    }
+
+    /**
+     * Composes the transform moving the list by the offset.
+     * The offset runs from 0 to -itemSize as the first item scrolls out, whatever the direction:
+     * "rtl" moves the list left, "vertical" up, and "ltr" (laid out in reverse
+     * with the 2 buffer cells on the left) right.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {number} offset in px
+     * @return {string}
+     */
+    private _translate(offset: number): string {
+        switch (this._direction) {
+            case ScrollDirection.Ltr:
+                return `translateX(${-2 * this._itemSize() - offset}px)`;
+            case ScrollDirection.Vertical:
+                return `translateY(${offset}px)`;
+            case ScrollDirection.Rtl:
+            default:
+                return `translateX(${offset}px)`;
+        }
+    }
+
+    /**
+     * Converts a pointer movement into the change of the offset, see _translate.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {number} dx horizontal movement in px
+     * @params {number} dy vertical movement in px
+     * @return {number}
+     */
+    private _pointerDelta(dx: number, dy: number): number {
+        switch (this._direction) {
+            case ScrollDirection.Ltr:
+                return -dx;
+            case ScrollDirection.Vertical:
+                return dy;
+            case ScrollDirection.Rtl:
+            default:
+                return dx;
+        }
+    }
+
+    /**
+     * Reads the offset in px the list is currently moved by,
+     * also in the middle of an animation.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     * @return {number}
+     */
+    private _currentOffset(): number {
+        const {transform} = getComputedStyle(<HTMLUListElement> this.carouselList);
+        //matrix(a, b, c, d, tx, ty)
+        const match = /matrix\(([^)]+)\)/.exec(transform || "");
+        const [tx, ty] = match ? match[1].split(",").slice(4).map((value) => parseFloat(value) || 0) : [0, 0];
+        switch (this._direction) {
+            case ScrollDirection.Ltr:
+                return -2 * this._itemSize() - tx;
+            case ScrollDirection.Vertical:
+                return ty;
+            case ScrollDirection.Rtl:
+            default:
+                return tx;
+        }
+    }
+
+    /**
+     * Cancels the running animation, keeping the list at the offset it has reached.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     * @return {number} the offset in px
+     */
+    private _holdAnimation(): number {
+        const offset: number = this._currentOffset();
+        if (this._animation) {
+            this._animation.onfinish = null;
+            this._animation.cancel();
+            this._animation = null;
+        }
+        this._dwellTimer && clearTimeout(this._dwellTimer);
+        this._dwellTimer = null;
+        this._frameId && cancelAnimationFrame(this._frameId);
+        this._frameId = null;
+        (<HTMLUListElement> this.carouselList).style.transform = this._translate(offset);
+        return offset;
+    }
+
+    /**
+     * Tells whether there are enough books to scroll through.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     * @return {boolean}
+     */
+    private _canScroll(): boolean {
+        return !!this._data && (this._data.length > this._numberItems
+            || this._overflow === OverflowMode.Loop && this._data.length > 0);
+    }
+
+    /**
+     * Queues a manual step. After the last queued step the automatic scrolling continues
+     * if the carousel is playing.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {number} direction 1 forward, -1 backward, 0 back to the nearest item
+     * @params {number} duration of the step in ms
+     * @return {Promise<void>} resolved when the step is done
+     */
+    private _queueStep(direction: number, duration: number = EkDottCarousel.MANUAL_STEP_DURATION): Promise<void> {
+        if (!this._canScroll()) {
+            return Promise.resolve();
+        }
+        this._pendingSteps++;
+        this._stepQueue = this._stepQueue
+            .then(() => this._step(direction, duration))
+            .then(() => {
+                if (--this._pendingSteps === 0 && this._carouselState === AnimationState.Playing) {
+                    this._advance();
+                }
+            });
+        return this._stepQueue;
+    }
+
+    /**
+     * Animates one step from wherever the list currently is.
+     * Forward it scrolls to the next item and recycles the first <li>,
+     * backward it recycles the last <li> to the front and scrolls to it.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {number} direction 1 forward, -1 backward, 0 back to the nearest item
+     * @params {number} duration of the step in ms
+     * @return {Promise<void>} resolved when the step is done
+     */
+    private _step(direction: number, duration: number): Promise<void> {
+        const list = <HTMLUListElement> this.carouselList;
+        const size: number = this._itemSize();
+        let from: number = this._holdAnimation();
+        if (direction < 0) {
+            this._recycleBackward();
+            from -= size;
+        }
+        const to: number = direction > 0 ? -size : 0;
+        return new Promise((resolve) => {
+            const animation = list.animate([
+                {transform: this._translate(from)},
+                {transform: this._translate(to)}
+            ], {
+                duration: this._prefersReducedMotion() ? 0 : duration * Math.min(1, Math.abs(to - from) / size),
+                easing: 'ease-out',
+                fill: 'forwards'
+            });
+            this._animation = animation;
+            animation.onfinish = () => {
+                direction > 0 && this._recycleForward();
+                this._animation = null;
+                animation.cancel();
+                list.style.transform = this._translate(0);
+                this._announce();
+                resolve();
+            };
+        });
+    }
+
+    /**
+     * Arrow keys scroll when the carousel is focused.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {KeyboardEvent} event
+     */
+    private _keyDown(event: KeyboardEvent) {
+        if (event.key === 'ArrowRight' || event.key === 'ArrowDown') {
+            event.preventDefault();
+            this.next();
+        } else
+        if (event.key === 'ArrowLeft' || event.key === 'ArrowUp') {
+            event.preventDefault();
+            this.previous();
+        }
+    }
+
+    /**
+     * Starts dragging the list with a pointer (touch, pen or mouse).
+     * 
+     * @access private
+     * @type  {function}
+     * @params {PointerEvent} event
+     */
+    private _dragStart(event: PointerEvent) {
+        const target = <HTMLElement> event.target;
+        if (this._drag || this._pendingSteps > 0 || !this._canScroll() || target.closest('.nav')
+            || (event.pointerType === 'mouse' && event.button !== 0)) {
+            return;
+        }
+        this._dragMoved = false;
+        const offset: number = this._holdAnimation();
+        this._drag = {
+            pointerId: event.pointerId,
+            lastPosition: this._pointerDelta(event.clientX, event.clientY),
+            offset,
+            moved: false,
+            track: [{position: this._pointerDelta(event.clientX, event.clientY), time: event.timeStamp}]
+        };
+    }
+
+    /**
+     * Moves the list with the pointer, recycling <li> at either end
+     * so that the drag can go on beyond one item.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {PointerEvent} event
+     */
+    private _dragMove(event: PointerEvent) {
+        const drag = this._drag;
+        if (!drag || drag.pointerId !== event.pointerId) {
+            return;
+        }
+        const size: number = this._itemSize();
+        const position: number = this._pointerDelta(event.clientX, event.clientY);
+        drag.offset += position - drag.lastPosition;
+        drag.lastPosition = position;
+        drag.track.push({position, time: event.timeStamp});
+        drag.track = drag.track.filter(({time}) => event.timeStamp - time <= 100);
+        if (!drag.moved && Math.abs(position - drag.track[0].position) > 5) {
+            drag.moved = true;
+            (<HTMLElement> event.currentTarget).setPointerCapture(event.pointerId);
+            (<HTMLElement> event.currentTarget).classList.add('dragging');
+        }
+        while (drag.offset <= -size) {
+            this._recycleForward();
+            drag.offset += size;
+        }
+        while (drag.offset > 0) {
+            this._recycleBackward();
+            drag.offset -= size;
+        }
+        (<HTMLUListElement> this.carouselList).style.transform = this._translate(drag.offset);
+    }
+
+    /**
+     * Releases the drag: the velocity of the last 100ms keeps scrolling for a while (momentum),
+     * then the list settles on the nearest item.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {PointerEvent} event
+     */
+    private _dragEnd(event: PointerEvent) {
+        const drag = this._drag;
+        if (!drag || drag.pointerId !== event.pointerId) {
+            return;
+        }
+        this._drag = null;
+        (<HTMLElement> event.currentTarget).classList.remove('dragging');
+        const size: number = this._itemSize();
+        const first = drag.track[0];
+        const elapsed: number = event.timeStamp - first.time;
+        const velocity: number = elapsed > 0 ? (this._pointerDelta(event.clientX, event.clientY) - first.position) / elapsed : 0;
+        const projected: number = drag.offset + velocity * EkDottCarousel.MOMENTUM_TIME;
+        const steps: number = Math.round(-projected / size);
+        if (steps === 0) {
+            this._queueStep(0);
+        } else {
+            const direction: number = steps > 0 ? 1 : -1;
+            //the first step settles the dragged item, the others are the momentum, each faster
+            for (let step = 0; step < Math.abs(steps); step++) {
+                this._queueStep(direction, EkDottCarousel.MANUAL_STEP_DURATION / (step + 1));
+            }
+        }
+        //keep the drag from turning into a click on the link
+        drag.moved && (this._dragMoved = true);
+    }
+
+    /**
+     * Swallows the click which ends a drag.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {Event} event
+     */
+    private _dragClick(event: Event) {
+        if (this._dragMoved) {
+            this._dragMoved = false;
+            event.preventDefault();
+            event.stopPropagation();
+        }
+    }
+
+    /**
+     * Moves the data cursor to the next book.
+     * Wraps to the beginning only when the end of the loaded data is reached,
+     * and asks for more data before it gets there.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     */
+    private _moveCursor() {
+        const data = <Book[]> this._data;
+        this._dataCursor++;
+        if (this._dataCursor >= data.length) {
+            //more data did not arrive in time, start over and ask again on the next lap
+            this._dataCursor = 0;
+            this._moreRequested = false;
+        }
+        if (!this._moreRequested && data.length < this._total
+            && data.length - this._dataCursor <= EkDottCarousel.LOAD_MORE_THRESHOLD) {
+            this._moreRequested = true;
+            this.dispatchEvent(new Event('loadmore'));
+        }
+        this._preloadCovers();
+    }
+
+    /**
+     * Time in ms to scroll one item as set by the attribute "speed".
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     * @return {number}
+     */
+    private _itemDuration(): number {
+        const {value, pxPerSecond} = this._speed;
+        return pxPerSecond ? 1000 * this._itemSize() / value : value;
+    }
+
+    /**
+     * Starts moving next animation slide.
+     * onFinish of the Animation we add a new <li> to the end and restart the sequence,
+     * after resting for the "dwell" time.
+     * In the continuous mode the list is moved frame by frame instead.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     */
+    private _advance() {
+        if (this._carouselState === AnimationState.Playing && !this._drag && this._pendingSteps === 0) {
+            const size: number = this._itemSize();
+            //continue from where a drag or a step left the list
+            const from: number = this._holdAnimation();
+            if (this._mode === ScrollMode.Continuous) {
+                this._marquee(from);
+                return;
+            }
+            const aniStyle = [
+                {
+                    transform: this._translate(from)
+                },
+                {
+                    transform: this._translate(-size)
+                }
+            ];
+            const aniTiming: KeyframeAnimationOptions = {
+                duration: this._itemDuration() * Math.min(1, (size + from) / size),
+                easing: this._easing,
+                iterations: 1,
+                fill: 'forwards'
+            };
+            this._animation = (<HTMLUListElement> this.carouselList).animate(aniStyle, aniTiming);
+            this._animation.onfinish = () => {
+                if (this._dwell > 0 && this._carouselState === AnimationState.Playing) {
+                    this._completeStep();
+                    this._dwellTimer = setTimeout(this._advance.bind(this), this._dwell);
+                } else {
+                    this._addNewItem();
+                }
+            };
+        }
+    }
+
+    /**
+     * Moves the list at a constant speed on every animation frame,
+     * recycling the first <li> as soon as it is out, so there is no seam between the items.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {number} from offset to start at
+     */
+    private _marquee(from: number) {
+        const list = <HTMLUListElement> this.carouselList;
+        let offset: number = from;
+        let last: number | null = null;
+        const frame = (time: number) => {
+            if (this._carouselState !== AnimationState.Playing) {
+                this._frameId = null;
+                return;
+            }
+            const size: number = this._itemSize();
+            offset -= last === null ? 0 : size * (time - last) / this._itemDuration();
+            last = time;
+            while (offset <= -size) {
+                this._recycleForward();
+                offset += size;
+            }
+            list.style.transform = this._translate(offset);
+            this._frameId = requestAnimationFrame(frame);
+        };
+        this._frameId = requestAnimationFrame(frame);
+    }
+
+    /**
+     * Callback rendering the content of a cell, null for the templates.
+     * Setting it re-renders the cells.
+     * 
+     * @access public
+     * @type  {BookCellRenderer | null}
+     */
+    get renderItem(): BookCellRenderer | null {
+        return this._renderItemCallback;
+    }
+
+    set renderItem(renderer: BookCellRenderer | null) {
+        this._renderItemCallback = typeof renderer === "function" ? renderer : null;
+        this._rerender();
+    }
+
+    /**
+     * Renders the cells again, e.g. after the renderer or the template changed.
+     * 
+     * @access public
+     * @type  {function}
+     * @params {void}
+     */
+    public refresh() {
+        this._rerender();
+    }
+
+    /**
+     * Renders every filled cell again with the same book.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {void}
+     */
+    private _rerender() {
+        if (!this.carouselList || !this._data) {
+            return;
+        }
+        (<HTMLLIElement[]> Array.from(this.carouselList.children)).forEach((li) => {
+            //the template may have changed, so the cells are built anew
+            delete li.dataset.cell;
+            typeof li.dataset.index !== "undefined" && this._renderItem(li, parseInt(li.dataset.index, 10));
+        });
+        this._updateHiddenItems();
+    }
+
+    /**
+     * Sets the carousel data to be the provided array of Book[].
+     * Fills the earlier created <li> elements with data from an html template. 
+     * 
+     * @access public
+     * @type  {function}
+     * @params {Book[]} Array of data to be used by teh carousel
+     * @params {autostart?} Optional boolean , true=start carousel 
+     * @params {total?} Optional total number of books available, more than data.length enables "loadmore"
+     */
+    public setFeed(data: Book[] = [], autostart?: boolean, total?: number) {
+        this._data = data;
+        this._total = total || data.length;
+        this._moreRequested = false;
+        this._preloadedCovers = {};
+        //nothing left to scroll through
+        this._updateOverflow();
+        this._canScroll() || this.stop();
+        this._createList();
+        this._fillList();
+        this._setFeedState(data.length > 0 ? FeedState.Ready : FeedState.Empty);
+        autostart && this.start();
+        this._syncControls();
+    }
+
+    /**
+     * Appends books to the end of the current feed.
+     * Already rendered cells and the animation are left as they are,
+     * the new books scroll in once the cursor gets to them.
+     * 
+     * @access public
+     * @type  {function}
+     * @params {Book[]} Array of data to be added to the feed
+     */
+    public appendFeed(data: Book[] = []) {
+        if (!this._data) {
+            this.setFeed(data);
+            return;
+        }
+        this._data.push(...data);
+        this._total = Math.max(this._total, this._data.length);
+        this._moreRequested = false;
+        //a short feed which got long enough scrolls normally
+        this._pickOverflow() !== this._overflow && this._relayout();
+    }
+
+    /**
+     * Replaces the book with the index in the feed,
+     * the cells showing it are patched in place.
+     * 
+     * @access public
+     * @type  {function}
+     * @params {number} index of the book in the feed
+     * @params {Book} book to show instead
+     */
+    public updateItem(index: number, book: Book) {
+        if (!this._data || !this.carouselList || index < 0 || index >= this._data.length) {
+            return;
+        }
+        this._data[index] = book;
+        (<HTMLLIElement[]> Array.from(this.carouselList.children)).forEach((li) => {
+            li.dataset.index === String(index) && this._renderItem(li, index);
+        });
+        this._updateHiddenItems();
+    }
+
+    /**
+     * Removes the book with the index from the feed. The visible cells are patched in place,
+     * so a running animation goes on, the following books move up to fill the gap.
+     * 
+     * @access public
+     * @type  {function}
+     * @params {number} index of the book in the feed
+     */
+    public removeItem(index: number) {
+        if (!this._data || !this.carouselList || index < 0 || index >= this._data.length) {
+            return;
+        }
+        const first: number = this._firstIndex();
+        this._data.splice(index, 1);
+        this._total = Math.max(this._data.length, this._total - 1);
+        if (!this._canScroll() || this._pickOverflow() !== this._overflow) {
+            //too few books left to scroll, lay them out as the overflow mode says
+            this._relayout();
+            return;
+        }
+        this._renderFrom((index < first ? first - 1 : first) % this._data.length);
+        this._updateHiddenItems();
+    }
+
+    /**
+     * Starts scrolling the carousel.
+     * 
+     * @access public
+     * @type  {function}
+     * @params {void}
+     */
+    public start() {
+        //reduced motion keeps the carousel static until play is pressed
+        if (this._prefersReducedMotion() && !this._motionAllowed) {
+            return;
+        }
+        //let's chec if we can start animating = have data and enough itms
+        if (this._canScroll()) {
             if (this._carouselState === AnimationState.Paused) {
                 this._carouselState = AnimationState.Playing;
                 this._resume();
@@ -440,6 +2273,7 @@ class EkDottCarousel extends HTMLElement {
                 this._carouselState = AnimationState.Playing;
                 this._advance();
             }
+            this._syncControls();
         }
     }
 
@@ -451,10 +2285,12 @@ class EkDottCarousel extends HTMLElement {
      * @params {void}
      */
     public stop() {
-        if (this._carouselState === AnimationState.Playing) {
+        if (this._carouselState !== AnimationState.Stopped) {
             this._carouselState = AnimationState.Stopped;
-            (<Animation> this._animation).onfinish = null;
-            (<Animation> this._animation).finish();
+            if (this._pendingSteps === 0) {
+                this._holdAnimation();
+            }
+            this._syncControls();
         }
     }
 
@@ -468,7 +2304,11 @@ class EkDottCarousel extends HTMLElement {
     public pause() {
         if (this._carouselState === AnimationState.Playing) {
             this._carouselState = AnimationState.Paused;
-            (<Animation> this._animation).pause();
+            //a manual step always runs to its end
+            if (this._pendingSteps === 0) {
+                this._animation ? this._animation.pause() : this._holdAnimation();
+            }
+            this._syncControls();
         }
     }
 
@@ -481,7 +2321,160 @@ class EkDottCarousel extends HTMLElement {
      */
     private _resume() {
         this._carouselState = AnimationState.Playing;
-        (<Animation> this._animation).play();
+        if (this._animation && this._pendingSteps === 0 && this._mode === ScrollMode.Step) {
+            this._animation.play();
+        } else {
+            //paused in the middle of a manual step or a drag, start over from where it is
+            this._advance();
+        }
+    }
+
+    /**
+     * Scrolls one book forward.
+     * 
+     * @access public
+     * @type  {function}
+     * @params {void}
+     */
+    public next() {
+        this._queueStep(1);
+    }
+
+    /**
+     * Scrolls one book backward.
+     * 
+     * @access public
+     * @type  {function}
+     * @params {void}
+     */
+    public previous() {
+        this._queueStep(-1);
+    }
+
+    /**
+     * Shows the details of the book over the page: the large cover, all authors,
+     * publish info, subjects and the description fetched from the OpenLibrary works endpoint.
+     * The carousel pauses while the details are open.
+     * 
+     * @access public
+     * @type  {function}
+     * @params {number} index of the book in the feed
+     */
+    public showDetail(index: number) {
+        const book: Book | undefined = this._data ? this._data[index] : undefined;
+        if (!book) {
+            return;
+        }
+        const shadowRoot = <ShadowRoot> this.shadowRoot;
+        const detail = <HTMLDivElement> shadowRoot.querySelector("#detail");
+        const cover = <HTMLImageElement> shadowRoot.querySelector("#detail-cover");
+        const fields = <HTMLDListElement> shadowRoot.querySelector("#detail-fields");
+        const description = <HTMLParagraphElement> shadowRoot.querySelector("#detail-description");
+
+        cover.src = this._composeImageUrl(book, "L");
+        cover.onerror = () => {
+            cover.onerror = null;
+            cover.src = this._stubImageUrl || EkDottCarousel.DEFAULT_IMAGE;
+        };
+        (<HTMLHeadingElement> shadowRoot.querySelector("#detail-title")).textContent = book.title;
+        fields.innerHTML = "";
+        const addField = (name: string, value?: string | number | string[]) => {
+            const text: string = Array.isArray(value) ? value.join(", ") : typeof value === "undefined" ? "" : String(value);
+            if (text.length > 0) {
+                const dt: HTMLElement = document.createElement('dt');
+                const dd: HTMLElement = document.createElement('dd');
+                dt.textContent = name;
+                dd.textContent = text;
+                fields.appendChild(dt);
+                fields.appendChild(dd);
+            }
+        };
+        addField(book.author_name.length > 1 ? "Authors" : "Author", book.author_name);
+        addField("First published", book.first_publish_year);
+        addField("Editions", book.edition_count);
+        addField("Publishers", book.publisher && book.publisher.slice(0, 5));
+        addField("Subjects", book.subject && book.subject.slice(0, 10));
+
+        description.textContent = "";
+        this._detailAbortController && this._detailAbortController.abort();
+        this._detailAbortController = null;
+        if (book.key && book.key.indexOf('/works/') === 0) {
+            const abortController = this._detailAbortController = new AbortController();
+            description.textContent = "Loading description...";
+            fetchWorkDescription(book.key, abortController.signal).then((text: string) => {
+                description.textContent = text;
+            }).catch(() => {
+                if (!abortController.signal.aborted) {
+                    description.textContent = "";
+                }
+            });
+        }
+
+        this.pause();
+        detail.hidden = false;
+        (<HTMLButtonElement> shadowRoot.querySelector("#detail-close")).focus();
+    }
+
+    /**
+     * Closes the details and returns the focus to the cover which opened them.
+     * 
+     * @access public
+     * @type  {function}
+     * @params {void}
+     */
+    public closeDetail() {
+        const detail = <HTMLDivElement> (<ShadowRoot> this.shadowRoot).querySelector("#detail");
+        if (detail.hidden) {
+            return;
+        }
+        detail.hidden = true;
+        this._detailAbortController && this._detailAbortController.abort();
+        this._detailAbortController = null;
+        const returnFocus = this._detailReturnFocus;
+        this._detailReturnFocus = null;
+        if (returnFocus && returnFocus.isConnected) {
+            returnFocus.focus();
+        } else {
+            this.focus();
+        }
+    }
+
+    /**
+     * Shows the book with the index in the feed as the first visible one.
+     * The automatic scrolling continues from there if the carousel is playing.
+     * Does nothing when the feed is too short to scroll.
+     * 
+     * @access public
+     * @type  {function}
+     * @params {number} index of the book in the feed
+     */
+    public goTo(index: number) {
+        if (!this._canScroll() || this._drag || this._pendingSteps > 0) {
+            return;
+        }
+        const {length} = <Book[]> this._data;
+        this._holdAnimation();
+        (<HTMLUListElement> this.carouselList).style.transform = this._translate(0);
+        this._renderFrom(((Math.floor(index) % length) + length) % length);
+        this._announce();
+        this._carouselState === AnimationState.Playing && this._advance();
+    }
+
+    /**
+     * Renders the cells starting with the book with the index, where the list currently is.
+     * 
+     * @access private
+     * @type  {function}
+     * @params {number} first index of the book in the feed
+     */
+    private _renderFrom(first: number) {
+        const {length} = <Book[]> this._data;
+        const list = <HTMLUListElement> this.carouselList;
+        (<HTMLLIElement[]> Array.from(list.children)).forEach((li, ind) => {
+            this._renderItem(li, (first + ind) % length);
+        });
+        this._dataCursor = (first + list.children.length - 1) % length;
+        this._preloadCovers();
     }
 
 }
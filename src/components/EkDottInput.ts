@@ -1,49 +1,60 @@
-import {Book, BookSearchEvent, SpeechWindow} from '../types';
+import {Book, BookQuery, BookSearchDetail, BookSearchEvent, BookSearchEventType, BookSearchProvider, BookSearchResult, BookSearchProviderFactory, ElementInternalsLike, InternalsElement, VoiceCommand, VoiceCommandEvent} from '../types';
 import {format as formatTimeAgo} from 'timeago.js';
+import {createProvider, DEFAULT_PROVIDER, registerProvider} from '../services/providerRegistry';
+import SearchCache from '../services/SearchCache';
+import SearchError, {SearchErrorKind} from '../services/SearchError';
+import searchWithRetry, {DEFAULT_RETRY_OPTIONS, RetryOptions} from '../services/searchWithRetry';
+import SearchHistory from '../services/SearchHistory';
+import {formatQuery, parseQuery} from '../services/bookQuery';
+import SpeechService, {SpeechState} from '../services/SpeechService';
+import {parseVoiceCommand, registerVoiceCommand} from '../services/voiceCommands';
+import themeStyles from './themeStyles';
+
+//maximum number of history entries and provider suggestions shown in the listbox
+const MAX_SUGGESTIONS: number = 5;
 
 const componentStyles = `
     <style>
         :host {
-            font-family: sans-serif;
-            border: 2px solid purple;
-            padding: 1rem;
-            margin: 1rem;
             display: block;
-            width: 25rem;
+            width: var(--ek-dott-input-width, 25rem);
             max-width: 100%;
         }
         #search-input {
             font: inherit;
-            color: purple;
+            color: var(--_text);
+            background: var(--_background);
+            border: 1px solid var(--_muted);
+            border-radius: var(--_radius);
             padding: 0.1rem 0.25rem;
-            font-size: 1rem;
             width: 70%;
         }
         #search-input:focus {
-            outline: none;
+            outline: var(--_focus-ring);
         }
         #search-button {
             font: inherit;
-            border: 1px solid purple;
-            color: white;
-            background: purple;
+            border: 1px solid var(--_primary);
+            border-radius: var(--_radius);
+            color: var(--_on-primary);
+            background: var(--_primary);
             cursor: pointer;
             padding: 0.1rem 0.25rem;
         }
         
         #search-button:hover,
         #search-button:active {
-            background: #8a3c8a;
-            border-color: #8a3c8a;
+            background: var(--_primary-hover);
+            border-color: var(--_primary-hover);
         }
         
         #search-button:focus {
-            outline: none;
+            outline: var(--_focus-ring);
         }
         
         #search-button:disabled {
-            background: #ccc;
-            border-color: #ccc;
+            background: var(--_disabled);
+            border-color: var(--_disabled);
             cursor: not-allowed;
         }
         .fas {
@@ -61,10 +72,10 @@ const componentStyles = `
             content: "\\f130";
         }
         .microphone-active{
-            color: blue;
+            color: var(--_primary);
         }
         .microphone-inactive{
-            color: grey;
+            color: var(--_muted);
         }
         .microphone-active:hover{
             cursor: pointer;
@@ -72,12 +83,34 @@ const componentStyles = `
         .microphone-inactive:hover{
             cursor: pointer;
         }
+        .fas-microphone:focus {
+            outline: var(--_focus-ring);
+        }
+        .fas-microphone.off {
+            display: none;
+        }
+        .fas-microphone[aria-disabled="true"] {
+            opacity: 0.5;
+            cursor: not-allowed;
+        }
+        :host([disabled]) {
+            opacity: 0.7;
+        }
+        #speech-status {
+            display: block;
+            font-size: 0.8rem;
+            padding-top: 5px;
+            color: var(--_muted);
+        }
+        #speech-status.off {
+            display: none;
+        }
         #last-search {
             display: block;
             font-size: 0.8rem;
             height: 1rem;
             padding-top: 5px;
-            color: grey;
+            color: var(--_muted);
         }
         #last-search.on {
             visibility: visible;
@@ -85,6 +118,124 @@ const componentStyles = `
         #last-search.off {
             visibility: hidden;
         }
+        #input-wrapper {
+            position: relative;
+            display: inline-block;
+            width: 70%;
+        }
+        #input-wrapper #search-input {
+            width: 100%;
+            box-sizing: border-box;
+        }
+        #suggestions {
+            position: absolute;
+            top: 100%;
+            left: 0;
+            right: 0;
+            z-index: 1;
+            margin: 0;
+            padding: 0;
+            list-style: none;
+            background: var(--_background);
+            border: 1px solid var(--_primary);
+            border-top: none;
+        }
+        #suggestions.off {
+            display: none;
+        }
+        #suggestions li {
+            padding: 0.2rem 0.25rem;
+            cursor: pointer;
+            color: var(--_text);
+        }
+        #suggestions li.history {
+            color: var(--_muted);
+        }
+        #suggestions li[aria-selected="true"],
+        #suggestions li:hover {
+            background: var(--_highlight);
+        }
+        #advanced-toggle {
+            font: inherit;
+            font-size: 0.8rem;
+            border: none;
+            background: none;
+            color: var(--_primary);
+            cursor: pointer;
+            text-decoration: underline;
+            padding: 0 0.25rem;
+        }
+        #advanced-toggle.off {
+            display: none;
+        }
+        #advanced {
+            display: grid;
+            grid-template-columns: auto 1fr auto 1fr;
+            grid-gap: 0.25rem 0.5rem;
+            align-items: center;
+            margin: 0.5rem 0 0 0;
+            border: 1px solid var(--_disabled);
+            font-size: 0.8rem;
+            color: var(--_muted);
+        }
+        #advanced.off {
+            display: none;
+        }
+        #advanced input {
+            font: inherit;
+            color: var(--_text);
+            background: var(--_background);
+            min-width: 0;
+        }
+        #search-error {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            margin-top: 5px;
+            padding: 0.25rem 0.5rem;
+            font-size: 0.8rem;
+            color: var(--_error);
+            border: 1px solid var(--_error);
+            border-radius: var(--_radius);
+        }
+        #search-retry {
+            font: inherit;
+            border: none;
+            background: none;
+            color: var(--_error);
+            cursor: pointer;
+            text-decoration: underline;
+        }
+        #search-loading {
+            display: inline-block;
+            vertical-align: middle;
+            padding: 0 0.25rem;
+        }
+        #search-loading.off {
+            display: none;
+        }
+        .spinner {
+            display: inline-block;
+            width: 0.8rem;
+            height: 0.8rem;
+            border: 2px solid var(--_disabled);
+            border-top-color: var(--_primary);
+            border-radius: 50%;
+            animation: spin 0.8s linear infinite;
+        }
+        @keyframes spin {
+            to {
+                transform: rotate(360deg);
+            }
+        }
+        @media (prefers-reduced-motion: reduce) {
+            .spinner {
+                animation-duration: 3s;
+            }
+        }
+        #search-error.off {
+            display: none;
+        }
     </style>
 `;
 
@@ -96,9 +247,51 @@ const componentStyles = `
 * 
 * @params {} none
 * @attributes {string} placeholder Placeholder text to be place into the <input>
+* @attributes {string} provider Name of the registered search provider, "openlibrary" by default
+* @attributes {string} endpoint Optional URL of the endpoint passed to the provider
+* @attributes {boolean} search-as-you-type When present the search is submitted while typing
+* @attributes {string} debounce Delay in ms after the last keystroke before searching as you type, 300 by default
+* @attributes {string} cache "memory" (default), "persistent" to keep results in IndexedDB, or "off"
+* @attributes {string} cache-ttl Time in ms for which cached results are fresh, 5 minutes by default
+* @attributes {string} timeout Time in ms after which a request is aborted, 10000 by default
+* @attributes {string} retries Number of retries of transient failures, 2 by default
+* @attributes {string} history "off" disables remembering the queries and suggesting them
+* @attributes {boolean} advanced When present the advanced panel with the filter fields can be opened
+* @attributes {string} name Name under which the query is submitted with the form the element is in
+* @attributes {string} value Initial query, also restored when the form is reset
+* @attributes {boolean} required The form is invalid while the query is empty
+* @attributes {string} minlength Minimum length of a non-empty query for the form to be valid
+* @attributes {boolean} disabled Disables the input, the buttons and the microphone
+* @slot loading Shown next to the button while a search runs, a spinner by default
+* @slot error Shown above the "Try again" button when a search fails, the description of the error by default
+* @attributes {string} speech-lang Language of the voice input, e.g. "de-DE", the language of the browser by default
+* @attributes {string} speech-state Reflects the voice input: idle, listening, no-speech, denied or error
+* @attributes {string} theme "light" or "dark" forces the built-in theme, otherwise it follows prefers-color-scheme
+*
+* Styled with the --ek-dott-* custom properties documented in themeStyles.ts,
+* plus --ek-dott-input-width, the width of the component, 25rem by default.
 * @method getData(void): Book[] - accesses the array of fetch data from OpenLibrary API
-* @method setQuery(query: string): void - sets the new query to the component
+* @method getTotal(void): number - total number of books found for the last query
+* @method setQuery(query: string | BookQuery): void - sets the new query to the component,
+*   text may use the filters title:, author:, subject:, isbn:, language: and year:1950..1960
+* @method getQuery(void): BookQuery - the query currently in the input parsed into its fields
+* @method setProvider(provider: BookSearchProvider | string): void - sets the search provider
 * @method submit(void): void - submits the query to search for the currently set query
+* @method clearCache(void): Promise<void> - removes all cached results
+* @method clearHistory(void): void - removes all remembered queries
+* @method loadMore(void): void - fetches the next page of the last query and raises "searchpage"
+* @method hasMore(void): boolean - whether the last query has more pages to load
+* @method clear(void): void - clears the query and aborts the search in flight
+* @property {string} value The query, like value of an <input>, also name, disabled, form, validity and validationMessage
+* @method checkValidity(void): boolean and reportValidity(void): boolean - validate like an <input>
+* @method static registerProvider(name: string, factory: BookSearchProviderFactory): void - registers a provider
+* @method static registerVoiceCommand(name: string, patterns: RegExp | RegExp[], lang?: string): void - registers a voice command
+*
+* Spoken phrases such as "search for …", "books by …", "next page", "previous page", "pause", "resume"
+* and "clear" (in English and German) are commands instead of a query. The input runs the searches
+* and "clear", a carousel with the input as its source acts on the others.
+* @event searchstart|searchdone|searchpage|searchempty|searcherror|searchabort BookSearchEvent with BookSearchDetail
+* @event voicecommand Cancelable VoiceCommandEvent raised for a spoken command before the input runs it
 */
 class EkDottInput extends HTMLElement {
     //components elements here
@@ -106,23 +299,69 @@ class EkDottInput extends HTMLElement {
     private searchButton: HTMLButtonElement | null = null;
     private searchInput: HTMLInputElement | null = null;
     private searchTime: HTMLSpanElement | null = null;
+    private searchError: HTMLDivElement | null = null;
+    private searchLoading: HTMLSpanElement | null = null;
+    private suggestionList: HTMLUListElement | null = null;
+    private advancedToggle: HTMLButtonElement | null = null;
+    private advancedPanel: HTMLFieldSetElement | null = null;
 
     //Microphone icon and its state for speech recognition
     private microphone: HTMLElement | null = null;
-    private microphoneOn: boolean = false;
+    private speechStatus: HTMLSpanElement | null = null;
+    private _speech: SpeechService | null = null;
+    //text of the input before the transcript replaced it, restored after a voice command
+    private _textBeforeSpeech: string = "";
 
-    //end point for fetching books an its state
-    private endPoint: string = "http://openlibrary.org/search.json?q=";
+    //form association, null in browsers without ElementInternals
+    private _internals: ElementInternalsLike | null = null;
+    //whether the user has edited the value, after that the "value" attribute no longer changes it
+    private _dirty: boolean = false;
+    //disabled by the attribute or by a disabled fieldset around
+    private _formDisabled: boolean = false;
+
+    //provider for fetching books an its state
+    private _provider: BookSearchProvider | null = null;
+    //cache of the search results, created from the "cache" attributes
+    private _cache: SearchCache | null = null;
     //whether the reuest is being preformed and the data is loading
     private _loading: boolean = false;
+    //controller to abort the request in flight when a new search starts
+    private _abortController: AbortController | null = null;
+    //sequence id of the latest request, carried in the events
+    private _requestId: number = 0;
+    //query and page of the request in flight, reported when it gets aborted
+    private _pendingQuery: string = "";
+    private _pendingPage: number = 0;
+    //whether the query in flight was submitted and goes into the history when it succeeds
+    private _pendingRemember: boolean = false;
+    //timer to debounce searching as you type
+    private _debounceTimer: number | null = null;
 
     //data as Book[] which can be at any point accessed by classInstance.getData()
     private _data: Book[] | null = null;
+    //total number of books found for the last query
+    private _total: number = 0;
+    //last submitted query and the number of its last loaded page
+    private _query: string = "";
+    private _page: number = 0;
+    //maximum number of books in a page of the provider
+    private _pageSize: number = 0;
+    //whether the last loaded page came from the cache
+    private _cached: boolean = false;
     //timer to update the time ago text
     private _timeAgoTimer: number | null = null;
     //timestamp of the last search
     private _searchTimestamp: number = 0;
 
+    //recently submitted queries persisted in localStorage
+    private _history: SearchHistory = new SearchHistory();
+    //suggestions currently listed under the input and the highlighted one
+    private _suggestions: {text: string, fromHistory: boolean}[] = [];
+    private _activeSuggestion: number = -1;
+    //timer and controller of the provider suggestions request
+    private _suggestTimer: number | null = null;
+    private _suggestAbortController: AbortController | null = null;
+
     /**
      * Class constructor. Attaches shadow root to where it palces al internal HTML elements.
      *
@@ -132,19 +371,72 @@ class EkDottInput extends HTMLElement {
     constructor() {
         super();
         this.attachShadow({mode: 'open'});
+        //takes part in the forms of the page where the browser supports it
+        const element = <InternalsElement> this;
+        this._internals = element.attachInternals ? element.attachInternals() : null;
 
         //defines internal styles and html elements of which this web component is composed
         (<ShadowRoot> this.shadowRoot).innerHTML = `
+        ${themeStyles}
         ${componentStyles}
         <div id="search-container">
             <form id="search-form">
-                <input id="search-input" /><i class="fas fas-microphone microphone-inactive"></i>
+                <span id="input-wrapper">
+                    <input id="search-input" autocomplete="off" role="combobox" aria-autocomplete="list"
+                        aria-controls="suggestions" aria-expanded="false" />
+                    <ul id="suggestions" class="off" role="listbox"></ul>
+                </span><i class="fas fas-microphone microphone-inactive" role="button" tabindex="0"
+                    aria-label="Search by voice" aria-pressed="false"></i>
                 <button id="search-button" type='Submit'>Search</button>
+                <span id="search-loading" class="off" role="status" aria-label="Searching">
+                    <slot name="loading"><span class="spinner"></span></slot>
+                </span>
+                <button id="advanced-toggle" type="button" class="off" aria-expanded="false" aria-controls="advanced">Advanced</button>
+                <fieldset id="advanced" class="off">
+                    <label for="advanced-title">Title</label><input id="advanced-title" name="title" />
+                    <label for="advanced-author">Author</label><input id="advanced-author" name="author" />
+                    <label for="advanced-subject">Subject</label><input id="advanced-subject" name="subject" />
+                    <label for="advanced-isbn">ISBN</label><input id="advanced-isbn" name="isbn" />
+                    <label for="advanced-language">Language</label><input id="advanced-language" name="language" placeholder="eng" />
+                    <span></span><span></span>
+                    <label for="advanced-year-from">Year from</label><input id="advanced-year-from" name="yearFrom" type="number" />
+                    <label for="advanced-year-to">Year to</label><input id="advanced-year-to" name="yearTo" type="number" />
+                </fieldset>
             </form>
             <span id="last-search" class="off"></span>
+            <div id="search-error" class="off" role="alert">
+                <slot name="error"><span id="search-error-message"></span></slot>
+                <button id="search-retry" type="button">Try again</button>
+            </div>
+            <span id="speech-status" class="off" role="status"></span>
         </div>
             `;
+
+        //listeners are added once here, so moving the element does not add them again
+        const shadowRoot = <ShadowRoot> this.shadowRoot;
+        const searchInput = <HTMLInputElement> shadowRoot.querySelector("#search-input");
+        const suggestionList = <HTMLUListElement> shadowRoot.querySelector("#suggestions");
+        const microphone = <HTMLElement> shadowRoot.querySelector(".fas-microphone");
+        (<HTMLFormElement> shadowRoot.querySelector("#search-form")).addEventListener('submit', this._search.bind(this));
+        (<HTMLButtonElement> shadowRoot.querySelector("#search-retry")).addEventListener('click', this._retry.bind(this));
+        microphone.addEventListener('click', this._toggleMic.bind(this));
+        microphone.addEventListener('keydown', (event: KeyboardEvent) => {
+            if (event.key === 'Enter' || event.key === ' ') {
+                event.preventDefault();
+                this._toggleMic();
+            }
+        });
+        searchInput.addEventListener('input', this._inputChange.bind(this));
+        searchInput.addEventListener('keydown', this._suggestionKeyDown.bind(this));
+        searchInput.addEventListener('focus', this._updateSuggestions.bind(this));
+        searchInput.addEventListener('blur', this._closeSuggestions.bind(this));
+        //keeping focus in the input while a suggestion is clicked
+        suggestionList.addEventListener('mousedown', (event: Event) => event.preventDefault());
+        suggestionList.addEventListener('click', this._suggestionClick.bind(this));
+        (<HTMLButtonElement> shadowRoot.querySelector("#advanced-toggle")).addEventListener('click', this._toggleAdvanced.bind(this));
+        (<HTMLFieldSetElement> shadowRoot.querySelector("#advanced")).addEventListener('input', this._advancedChange.bind(this));
     }
+
     /**
      * Web Component lifecycle method where we can initialise certain elements and states.
      *
@@ -157,14 +449,22 @@ class EkDottInput extends HTMLElement {
         this.searchButton = <HTMLButtonElement> (<ShadowRoot> this.shadowRoot).querySelector("#search-button");
         this.searchInput = <HTMLInputElement> (<ShadowRoot> this.shadowRoot).querySelector("#search-input");
         this.searchTime = <HTMLSpanElement> (<ShadowRoot> this.shadowRoot).querySelector("#last-search");
+        this.searchError = <HTMLDivElement> (<ShadowRoot> this.shadowRoot).querySelector("#search-error");
+        this.searchLoading = <HTMLSpanElement> (<ShadowRoot> this.shadowRoot).querySelector("#search-loading");
+        this.suggestionList = <HTMLUListElement> (<ShadowRoot> this.shadowRoot).querySelector("#suggestions");
+        this.advancedToggle = <HTMLButtonElement> (<ShadowRoot> this.shadowRoot).querySelector("#advanced-toggle");
+        this.advancedPanel = <HTMLFieldSetElement> (<ShadowRoot> this.shadowRoot).querySelector("#advanced");
         this.microphone = <HTMLElement> (<ShadowRoot> this.shadowRoot).querySelector(".fas-microphone");
-
-        this.searchForm.addEventListener('submit', this._search.bind(this));
-        this.microphone.addEventListener('click', this._toggleMic.bind(this));
-        this.searchInput.addEventListener('input', this._inputChange.bind(this));
+        this.speechStatus = <HTMLSpanElement> (<ShadowRoot> this.shadowRoot).querySelector("#speech-status");
 
         //add attributes
         this.searchInput.placeholder = this.getAttribute('placeholder') || "";
+        this.advancedToggle.classList.toggle("off", !this.hasAttribute('advanced'));
+        this.microphone.classList.toggle("off", !SpeechService.isSupported());
+        if (!this._dirty && this.hasAttribute('value')) {
+            this.searchInput.value = this.getAttribute('value') || "";
+        }
+        this._syncDisabled();
 
         this._inputChange();
     }
@@ -178,8 +478,11 @@ class EkDottInput extends HTMLElement {
      */
     disconnectedCallback(): void {
         //stop anything we can be doing here
-        this._toggleMic(); //like speech recognition
+        this._speech && this._speech.abort(); //like speech recognition
         this._timeAgoTimer && clearInterval(this._timeAgoTimer);
+        this._debounceTimer && clearTimeout(this._debounceTimer);
+        this._abort();
+        this._closeSuggestions();
     }
 
     /**
@@ -195,6 +498,28 @@ class EkDottInput extends HTMLElement {
     attributeChangedCallback(name: string, oldValue: string, newValue: string): void {
         if (name === 'placeholder' && this.searchInput) {
                 (<HTMLInputElement> this.searchInput).placeholder = newValue;
+        } else
+        if (name === 'value' && this.searchInput) {
+            //like the value attribute of an <input>, it is the value until the user edits it
+            this._dirty || this.setQuery(newValue || "");
+        } else
+        if (name === 'disabled') {
+            this._syncDisabled();
+        } else
+        if ((name === 'required' || name === 'minlength') && this.searchInput) {
+            this._updateFormValue();
+        } else
+        if (name === 'advanced' && this.advancedToggle) {
+            this.advancedToggle.classList.toggle("off", newValue === null);
+            newValue === null && this._toggleAdvanced(false);
+        } else
+        if (name === 'provider' || name === 'endpoint') {
+            //provider will be re-created on the next search
+            this._provider = null;
+        } else
+        if (name === 'cache' || name === 'cache-ttl') {
+            //cache will be re-created on the next search
+            this._cache = null;
         }
     }
 
@@ -208,45 +533,281 @@ class EkDottInput extends HTMLElement {
      * @returns {string[]} Array of attributes as strings which we want to observe for changes
      */
     static get observedAttributes(): string[] {
-        //if anybody changes the placeholder from JS, we can observe it
-        return ['placeholder'];
+        //if anybody changes the placeholder or the provider from JS, we can observe it
+        return ['placeholder', 'provider', 'endpoint', 'cache', 'cache-ttl', 'advanced', 'value', 'disabled', 'required', 'minlength'];
+    }
+
+    /**
+     * Tells the browser that the element takes part in forms through ElementInternals.
+     *
+     * @access static
+     * @type    {boolean}
+     */
+    static get formAssociated(): boolean {
+        return true;
+    }
+
+    /**
+     * Form lifecycle method called when the form is reset, the value goes back to the "value" attribute.
+     *
+     * @type    {function}
+     * @params {void} 
+     * @returns {void}
+     */
+    formResetCallback(): void {
+        this._dirty = false;
+        this.clear();
+        this.setQuery(this.getAttribute('value') || "");
+    }
+
+    /**
+     * Form lifecycle method called when the browser restores the form,
+     * e.g. navigating back to the page.
+     *
+     * @type    {function}
+     * @params {string} state The value submitted with the form
+     * @returns {void}
+     */
+    formStateRestoreCallback(state: string): void {
+        this.setQuery(state || "");
+    }
+
+    /**
+     * Form lifecycle method called when a fieldset around the element is disabled or enabled.
+     *
+     * @type    {function}
+     * @params {boolean} disabled 
+     * @returns {void}
+     */
+    formDisabledCallback(disabled: boolean): void {
+        this._formDisabled = disabled;
+        this._syncDisabled();
+    }
+
+    /**
+     * This disables the input, the buttons, the advanced fields and the mic
+     * while the element has the "disabled" attribute or is in a disabled fieldset.
+     * A pending search as you type is dropped.
+     *
+     * @access private
+     * @type    {function}
+     * @params {void} 
+     * @returns {void}
+     */
+    private _syncDisabled() {
+        if (!this.searchInput) {
+            return;
+        }
+        const disabled: boolean = this.disabled;
+        const microphone = <HTMLElement> this.microphone;
+        this.searchInput.disabled = disabled;
+        (<HTMLButtonElement> this.advancedToggle).disabled = disabled;
+        (<HTMLFieldSetElement> this.advancedPanel).disabled = disabled;
+        (<HTMLButtonElement> (<ShadowRoot> this.shadowRoot).querySelector("#search-retry")).disabled = disabled;
+        microphone.setAttribute('aria-disabled', String(disabled));
+        microphone.setAttribute('tabindex', disabled ? "-1" : "0");
+        if (disabled) {
+            this._speech && this._speech.abort();
+            this._debounceTimer && clearTimeout(this._debounceTimer);
+            this._debounceTimer = null;
+            this._closeSuggestions();
+        }
+        this._inputChange();
+    }
+
+    /**
+     * This reports the value to the form and validates it against "required" and "minlength".
+     *
+     * @access private
+     * @type    {function}
+     * @params {void} 
+     * @returns {void}
+     */
+    private _updateFormValue() {
+        const internals = this._internals;
+        if (!internals) {
+            return;
+        }
+        const {value} = <HTMLInputElement> this.searchInput;
+        internals.setFormValue(value.length > 0 ? value : null, value);
+        const minLength: number = parseInt(this.getAttribute('minlength') || "0", 10);
+        if (this.hasAttribute('required') && value.trim().length === 0) {
+            internals.setValidity({valueMissing: true}, "Please enter what to search for.", this.searchInput || undefined);
+        } else
+        if (minLength > 0 && value.length > 0 && value.length < minLength) {
+            internals.setValidity({tooShort: true}, `Please enter at least ${minLength} characters.`, this.searchInput || undefined);
+        } else {
+            internals.setValidity({});
+        }
     }
 
     /**
      * This is called in response to submitting the form with the search query.
-     * It stops form submission and calls to fetch the data.
+     * It stops form submission and calls to fetch the data, unless the element is disabled.
      *
      * @access private
      * @type    {function}
      * @params {Event} event object 
+     * @params {boolean} remember whether the query goes into the history, false for searches as you type
      * @returns {void}
      */
-    private _search(event?: Event): void {
+    private _search(event?: Event, remember: boolean = true): void {
         event && event.preventDefault();
-        this._fetch((<HTMLInputElement> this.searchInput).value)
+        if (this.disabled) {
+            return;
+        }
+        this._closeSuggestions();
+        //submitting directly cancels any pending search as you type
+        this._debounceTimer && clearTimeout(this._debounceTimer);
+        this._debounceTimer = null;
+        this._fetch((<HTMLInputElement> this.searchInput).value, 1, remember);
+    }
+
+    /**
+     * This returns the current provider or creates one from the "provider" and "endpoint" attributes.
+     * Falls back to the OpenLibrary provider when the name is not registered.
+     *
+     * @access private
+     * @type    {function}
+     * @params {void}
+     * @returns {BookSearchProvider} provider used for searching
+     */
+    private _getProvider(): BookSearchProvider {
+        if (!this._provider) {
+            const endPoint: string | undefined = this.getAttribute('endpoint') || undefined;
+            const name: string = this.getAttribute('provider') || DEFAULT_PROVIDER;
+            this._provider = createProvider(name, endPoint) || <BookSearchProvider> createProvider(DEFAULT_PROVIDER, endPoint);
+        }
+        return this._provider;
+    }
+
+    /**
+     * This returns the current cache or creates one from the "cache" and "cache-ttl" attributes.
+     *
+     * @access private
+     * @type    {function}
+     * @params {void}
+     * @returns {SearchCache | null} cache for the results or null when caching is off
+     */
+    private _getCache(): SearchCache | null {
+        const mode: string = this.getAttribute('cache') || "memory";
+        if (!this._cache && mode !== "off") {
+            const ttl: number = parseInt(this.getAttribute('cache-ttl') || "", 10);
+            this._cache = new SearchCache({
+                ttl: isNaN(ttl) ? undefined : ttl,
+                persistent: mode === "persistent"
+            });
+        }
+        return mode === "off" ? null : this._cache;
+    }
+
+    /**
+     * This reads the retry options from the "timeout" and "retries" attributes.
+     *
+     * @access private
+     * @type    {function}
+     * @params {void}
+     * @returns {RetryOptions}
+     */
+    private _getRetryOptions(): RetryOptions {
+        const timeout: number = parseInt(this.getAttribute('timeout') || "", 10);
+        const retries: number = parseInt(this.getAttribute('retries') || "", 10);
+        return {
+            ...DEFAULT_RETRY_OPTIONS,
+            timeout: isNaN(timeout) ? DEFAULT_RETRY_OPTIONS.timeout : timeout,
+            retries: isNaN(retries) ? DEFAULT_RETRY_OPTIONS.retries : retries
+        };
+    }
+
+    /**
+     * This returns the result from the cache when it is there,
+     * otherwise requests the provider and caches its result.
+     * If the request fails an expired cached result is used, so that searches work offline.
+     *
+     * @access private
+     * @type    {function}
+     * @params {string} search term
+     * @params {number} page number of the page to fetch
+     * @params {AbortSignal} signal to cancel the request
+     * @returns {Promise<{result: BookSearchResult, cached: boolean}>} result and whether it came from the cache
+     */
+    private async _cachedSearch(searchTerm: string, page: number, signal: AbortSignal): Promise<{result: BookSearchResult, cached: boolean}> {
+        const provider: BookSearchProvider = this._getProvider();
+        const cache: SearchCache | null = this._getCache();
+        const query: BookQuery = parseQuery(searchTerm);
+        //formatting the parsed query normalizes the order of the filters for the cache key and the provider
+        const queryString: string = formatQuery(query);
+        //providers of the same name on different endpoints must not share their results
+        const source: string = `${provider.name}@${this.getAttribute('endpoint') || ""}`;
+        const cachedResult: BookSearchResult | null = cache && await cache.get(source, queryString, page);
+        if (cachedResult) {
+            return {result: cachedResult, cached: true};
+        }
+        try {
+            const result: BookSearchResult = await searchWithRetry(provider, queryString, {page, signal, filters: query}, this._getRetryOptions());
+            cache && cache.set(source, queryString, page, result);
+            return {result, cached: false};
+        } catch (error) {
+            const staleResult: BookSearchResult | null = cache && !signal.aborted
+                ? await cache.get(source, queryString, page, true)
+                : null;
+            if (staleResult) {
+                return {result: staleResult, cached: true};
+            }
+            throw error;
+        }
     }
 
     /**
-     * This connects to the OpenLibrary and fetches the data by the provided search term.
+     * This connects to the search provider and fetches the data by the provided search term.
+     * The first page replaces the data, next pages are appended to it.
      *
      * @access private
      * @type    {function}
      * @params {string} search term
+     * @params {number} page number of the page to fetch, 1 by default
+     * @params {boolean} remember whether the query goes into the history when it succeeds
      * @returns {void} 
      */
-    private async _fetch(searchTerm: string): Promise<any> {
-        this._loading = true;
-        this._data = null;
+    private async _fetch(searchTerm: string, page: number = 1, remember: boolean = false): Promise<any> {
+        //aborting the previous request so that its response can't overwrite this one
+        this._abort();
+        const abortController = this._abortController = new AbortController();
+        const requestId: number = ++this._requestId;
+        const firstPage: boolean = page === 1;
+        this._pendingQuery = searchTerm;
+        this._pendingPage = page;
+        this._pendingRemember = remember;
+
+        this._setLoading(true);
+        if (firstPage) {
+            this._query = searchTerm;
+            this._page = 0;
+            this._total = 0;
+            this._data = null;
+        }
+        this._showError(null);
+        this._raiseSearchEvent('searchstart', this._createDetail(requestId, [], page));
         try {
-            let res: any = await fetch(`${this.endPoint}${searchTerm}`);
-            res = await res.json();
-            //remapping a bunch of book data into our simple Book type
-            this._data = res.docs ? res.docs.map((book: Book) => {
-                const {author_name, cover_i, isbn, title, key} = book;
-                return {author_name, cover_i, isbn, title, key};
-            }) : null;
+            const {result, cached} = await this._cachedSearch(searchTerm, page, abortController.signal);
+            if (requestId !== this._requestId) {
+                //a newer search has started meanwhile
+                return;
+            }
+            this._abortController = null;
+            this._data = firstPage ? result.data : [...(this._data || []), ...result.data];
+            this._total = result.total;
+            this._page = result.page;
+            this._pageSize = result.pageSize;
+            this._cached = cached;
 
-            this._loading = false;
+            this._setLoading(false);
+
+            if (!firstPage) {
+                //raising event with the next page only
+                this._raiseSearchEvent('searchpage', this._createDetail(requestId, result.data));
+                return;
+            }
 
             //restarting time ago timer
             this._searchTimestamp = new Date().getTime();
@@ -258,15 +819,124 @@ class EkDottInput extends HTMLElement {
             classList.add("on");
             classList.remove("off");
 
-            //raising event with the data
-            this._raiseSearchDone();
+            remember && this._historyEnabled() && this._history.add(searchTerm);
+
+            //raising event with the data, copy array for the event receiver
+            this._raiseSearchEvent('searchdone', this._createDetail(requestId, [...this._data]));
+            if (this._data.length === 0) {
+                this._raiseSearchEvent('searchempty', this._createDetail(requestId, []));
+            }
         } catch (error) {
-            this._loading = false;
-            this._data = null;
-            //raising eent with the error
-            this._raiseSearchError(error);
+            if (requestId !== this._requestId || abortController.signal.aborted) {
+                //aborted by a newer search or disconnecting, already reported
+                return;
+            }
+            this._abortController = null;
+            this._setLoading(false);
+            if (firstPage) {
+                this._data = null;
+                this._total = 0;
+            }
+            //showing the error and raising event with it
+            const searchError: SearchError = SearchError.from(error);
+            this._showError(searchError);
+            const detail: BookSearchDetail = this._createDetail(requestId, [], page);
+            detail.error = searchError;
+            this._raiseSearchEvent('searcherror', detail);
+        }
+    }
+
+    /**
+     * This renders a user friendly description of the error below the input,
+     * or hides the error area when called with null.
+     *
+     * @access private
+     * @type    {function}
+     * @params {SearchError | null} error to be shown
+     * @returns {void}
+     */
+    private _showError(error: SearchError | null) {
+        const searchError = <HTMLDivElement> this.searchError;
+        const errorMessage = <HTMLSpanElement> searchError.querySelector("#search-error-message");
+        if (!error) {
+            errorMessage.textContent = "";
+            searchError.classList.add("off");
+            return;
+        }
+        let message: string;
+        switch (error.kind) {
+            case SearchErrorKind.Timeout: {
+                message = "The search took too long. Please try again.";
+                break;
+            }
+            case SearchErrorKind.RateLimited: {
+                message = "Too many searches. Please wait a moment and try again.";
+                break;
+            }
+            case SearchErrorKind.Http: {
+                message = `The book service is unavailable (${error.status}).`;
+                break;
+            }
+            case SearchErrorKind.Parse: {
+                message = "The book service sent an unexpected response.";
+                break;
+            }
+            case SearchErrorKind.Network:
+            default: {
+                message = "Could not reach the book service. Check your connection.";
+                break;
+            }
+        }
+        errorMessage.textContent = message;
+        searchError.classList.remove("off");
+    }
+
+    /**
+     * This repeats the request which failed, a first or a next page, unless the element is disabled.
+     *
+     * @access private
+     * @type    {function}
+     * @params {void}
+     * @returns {void}
+     */
+    private _retry() {
+        !this.disabled && this._pendingPage > 0 && this._fetch(this._pendingQuery, this._pendingPage, this._pendingRemember);
+    }
+
+    /**
+     * This shows the spinner, marks the element busy and disables the button while a search runs.
+     *
+     * @access private
+     * @type    {function}
+     * @params {boolean} loading
+     * @returns {void}
+     */
+    private _setLoading(loading: boolean) {
+        this._loading = loading;
+        (<HTMLSpanElement> this.searchLoading).classList.toggle("off", !loading);
+        this.setAttribute('aria-busy', String(loading));
+        this._inputChange();
+    }
+
+    /**
+     * This aborts the request in flight, if any, and raises "searchabort".
+     *
+     * @access private
+     * @type    {function}
+     * @params {void}
+     * @returns {void}
+     */
+    private _abort() {
+        if (this._abortController) {
+            this._abortController.abort();
+            this._abortController = null;
+            this._setLoading(false);
+            const detail: BookSearchDetail = this._createDetail(this._requestId, [], this._pendingPage);
+            detail.query = this._pendingQuery;
+            this._raiseSearchEvent('searchabort', detail);
         }
     }
+
 /**
      * This ticks every second and renders text 
      * how long ago the request has been made
@@ -282,6 +952,7 @@ class EkDottInput extends HTMLElement {
     /**
      * This sets button state enabled or disabled based on the input.
      * if empty the button remains disabled.
+     * When typed in "search-as-you-type" mode it also schedules a debounced search.
      *
      * @access private
      * @type    {function}
@@ -289,135 +960,767 @@ class EkDottInput extends HTMLElement {
      * @returns {void} 
      */
     private _inputChange(event?: Event) {
-        (<HTMLButtonElement> this.searchButton).disabled = ((<HTMLInputElement> this.searchInput).value.length === 0);
+        const {value} = <HTMLInputElement> this.searchInput;
+        (<HTMLButtonElement> this.searchButton).disabled = (value.length === 0) || this.disabled || this._loading;
+        event && (this._dirty = true);
+        this._updateFormValue();
+
+        event && this._updateSuggestions();
+        event && this._syncAdvanced();
+        if (event && this.hasAttribute('search-as-you-type')) {
+            this._debounceTimer && clearTimeout(this._debounceTimer);
+            this._debounceTimer = null;
+            if (value.length > 0) {
+                const delay: number = parseInt(this.getAttribute('debounce') || "300", 10);
+                this._debounceTimer = setTimeout(() => {
+                    this._debounceTimer = null;
+                    //partial queries typed on the way are not remembered
+                    this._search(undefined, false);
+                }, isNaN(delay) ? 300 : delay);
+            }
+        }
     }
 
     /**
-     * This toogles microphone icon classes to indicate active/inactive.
-     * if empty the button remains disabled.
+     * This tells whether the queries are remembered and suggested.
      *
      * @access private
      * @type    {function}
-     * @params {void} 
-     * @returns {void} 
+     * @params {void}
+     * @returns {boolean}
      */
-    private _toggleMicIcon() {
-        const {classList} = (<HTMLElement> this.microphone);
-        classList.toggle("microphone-active");
-        classList.toggle("microphone-inactive");
+    private _historyEnabled(): boolean {
+        return this.getAttribute('history') !== 'off';
     }
 
     /**
-     * This toogles microphone active/inactive.
-     * When active the speech recognition is initialised and listening.
-     * When inactive speech recognition is off.
+     * This lists the matching history entries right away
+     * and the provider suggestions after the debounce delay.
      *
      * @access private
      * @type    {function}
-     * @params {void} 
-     * @returns {void} 
+     * @params {void}
+     * @returns {void}
      */
-    private _toggleMic() {
-        if (window.hasOwnProperty('webkitSpeechRecognition')) {
-            const speech = new(<SpeechWindow> window).webkitSpeechRecognition();
-            this._toggleMicIcon();
-
-            const stopSpeech = () => {
-                this._toggleMicIcon();
-                speech.stop();
-                speech.onresult = speech.onerror = null;
-            }
+    private _updateSuggestions() {
+        const text: string = (<HTMLInputElement> this.searchInput).value.trim();
+        const history: string[] = this._historyEnabled() ? this._history.match(text, MAX_SUGGESTIONS) : [];
 
-            if (this.microphoneOn) {
-                //turning off
-                stopSpeech();
-            } else {
-                //turning on
-                speech.continuous = false;
-                speech.interimResults = false;
-                speech.lang = "en-US";
-                speech.start();
-
-                speech.onresult = (spoken: any) => {
-                        (<HTMLInputElement> this.searchInput).value = spoken.results[0][0].transcript;
-                        this._inputChange();
-                        stopSpeech();
-                        (<HTMLButtonElement> this.searchButton).click();
-                };
-                speech.onerror = (error: string) => {
-                        stopSpeech();
-                };
-            }
+        this._suggestTimer && clearTimeout(this._suggestTimer);
+        this._suggestTimer = null;
+        this._suggestAbortController && this._suggestAbortController.abort();
+        this._suggestAbortController = null;
+
+        this._renderSuggestions(history.map((item) => ({text: item, fromHistory: true})));
+
+        const provider: BookSearchProvider = this._getProvider();
+        if (text.length === 0 || !provider.suggest) {
+            return;
         }
+        const suggest = provider.suggest.bind(provider);
+        const delay: number = parseInt(this.getAttribute('debounce') || "300", 10);
+        this._suggestTimer = setTimeout(async () => {
+            this._suggestTimer = null;
+            const abortController = this._suggestAbortController = new AbortController();
+            try {
+                const suggestions: string[] = await suggest(text, {signal: abortController.signal});
+                if (abortController.signal.aborted) {
+                    return;
+                }
+                this._suggestAbortController = null;
+                const lower: string[] = history.map((item) => item.toLowerCase());
+                const fresh = suggestions
+                    .filter((item) => lower.indexOf(item.toLowerCase()) === -1)
+                    .slice(0, MAX_SUGGESTIONS)
+                    .map((item) => ({text: item, fromHistory: false}));
+                this._renderSuggestions([...this._suggestions.filter((item) => item.fromHistory), ...fresh]);
+            } catch (error) {
+                //suggestions are optional, failing them should not bother the user
+            }
+        }, isNaN(delay) ? 300 : delay);
     }
 
     /**
-     * This dispatches a BookEvent with type "searcherror" for which 
-     * other HTML components can subscribe with addEventlistener().
+     * This renders the suggestions into the listbox and opens it,
+     * or closes it when there is nothing to suggest.
      *
      * @access private
      * @type    {function}
-     * @params {string} error description
-     * @returns {void} 
+     * @params {{text: string, fromHistory: boolean}[]} suggestions
+     * @returns {void}
      */
-    private _raiseSearchError(error: string) {
-        const event: BookSearchEvent = new Event('searcherror');
-        event.error = error;
-        this.dispatchEvent(event);
+    private _renderSuggestions(suggestions: {text: string, fromHistory: boolean}[]) {
+        const list = <HTMLUListElement> this.suggestionList;
+        const input = <HTMLInputElement> this.searchInput;
+        this._suggestions = suggestions;
+        this._activeSuggestion = -1;
+        list.innerHTML = "";
+        input.removeAttribute('aria-activedescendant');
+
+        suggestions.forEach(({text, fromHistory}, ind) => {
+            const li: HTMLLIElement = document.createElement('li');
+            li.id = `suggestion-${ind}`;
+            li.setAttribute('role', 'option');
+            li.setAttribute('aria-selected', 'false');
+            li.className = fromHistory ? "history" : "suggestion";
+            li.textContent = text;
+            list.appendChild(li);
+        });
+
+        const open: boolean = suggestions.length > 0 && (<ShadowRoot> this.shadowRoot).activeElement === input;
+        list.classList.toggle("off", !open);
+        input.setAttribute('aria-expanded', String(open));
     }
 
     /**
-     * This dispatches a BookEvent with type "searchdone" for which 
-     * other HTML components can subscribe with addEventlistener().
+     * This closes the listbox and cancels the pending suggestions.
      *
      * @access private
      * @type    {function}
      * @params {void}
-     * @returns {void} 
+     * @returns {void}
      */
-    private _raiseSearchDone() {
-        const event: BookSearchEvent = new Event('searchdone');
-        event.data = this._data ? [...this._data] : []; //copy array for the event receiver
-        this.dispatchEvent(event);
+    private _closeSuggestions() {
+        this._suggestTimer && clearTimeout(this._suggestTimer);
+        this._suggestTimer = null;
+        this._suggestAbortController && this._suggestAbortController.abort();
+        this._suggestAbortController = null;
+        if (this.suggestionList) {
+            this._suggestions = [];
+            this._activeSuggestion = -1;
+            this.suggestionList.innerHTML = "";
+            this.suggestionList.classList.add("off");
+            (<HTMLInputElement> this.searchInput).setAttribute('aria-expanded', 'false');
+            (<HTMLInputElement> this.searchInput).removeAttribute('aria-activedescendant');
+        }
     }
 
     /**
-     * This returns the array of data with Book information.
+     * This moves the highlight through the suggestions with the arrow keys,
+     * picks the highlighted one with Enter and closes the listbox with Escape.
      *
-     * @access public
+     * @access private
      * @type    {function}
-     * @params {void} 
-     * @returns {Book[] | null} When assigned returns array of data, ptherwise null
+     * @params {KeyboardEvent} event
+     * @returns {void}
      */
-    getData(): Book[] | null {
-        return this._data;
+    private _suggestionKeyDown(event: KeyboardEvent) {
+        const count: number = this._suggestions.length;
+        if (count === 0) {
+            return;
+        }
+        switch (event.key) {
+            case 'ArrowDown':
+            case 'ArrowUp': {
+                event.preventDefault();
+                const next: number = this._activeSuggestion + (event.key === 'ArrowDown' ? 1 : -1);
+                //wrapping through "none highlighted" at both ends
+                this._highlightSuggestion(next >= count ? -1 : next < -1 ? count - 1 : next);
+                break;
+            }
+            case 'Enter': {
+                if (this._activeSuggestion >= 0) {
+                    event.preventDefault();
+                    this._selectSuggestion(this._activeSuggestion);
+                }
+                break;
+            }
+            case 'Escape': {
+                event.preventDefault();
+                this._closeSuggestions();
+                break;
+            }
+            default: break;
+        }
     }
 
     /**
-     * This sets the input text from outside.
-     * 
-     * @access public
+     * This highlights the suggestion, -1 highlights none and returns to the typed text.
+     *
+     * @access private
      * @type    {function}
-     * @params {string} new search term to be put into the HTMLInputElement
-     * @returns {void} 
+     * @params {number} index of the suggestion
+     * @returns {void}
      */
-    public setQuery(searchTerm: string = "") {
-        (<HTMLInputElement> this.searchInput).value = searchTerm;
-        this._inputChange();
+    private _highlightSuggestion(index: number) {
+        const items: NodeListOf<HTMLLIElement> = (<HTMLUListElement> this.suggestionList).querySelectorAll("li");
+        const input = <HTMLInputElement> this.searchInput;
+        this._activeSuggestion = index;
+        items.forEach((li, ind) => li.setAttribute('aria-selected', String(ind === index)));
+        if (index >= 0) {
+            input.setAttribute('aria-activedescendant', items[index].id);
+        } else {
+            input.removeAttribute('aria-activedescendant');
+        }
     }
 
     /**
-     * This allows programmatically submitting the search query.
+     * This submits the clicked suggestion.
      *
-     * @access public
+     * @access private
      * @type    {function}
-     * @params {string} optional search query to be set
-     * @returns {void} 
+     * @params {Event} event
+     * @returns {void}
      */
-    public submit(searchTerm?: string) {
+    private _suggestionClick(event: Event) {
+        const li = <HTMLLIElement | null> (<HTMLElement> event.target).closest('li');
+        const list = <HTMLUListElement> this.suggestionList;
+        if (li && li.parentNode === list) {
+            this._selectSuggestion(Array.prototype.indexOf.call(list.children, li));
+        }
+    }
+
+    /**
+     * This puts the suggestion into the input and submits the search.
+     *
+     * @access private
+     * @type    {function}
+     * @params {number} index of the suggestion
+     * @returns {void}
+     */
+    private _selectSuggestion(index: number) {
+        const suggestion = this._suggestions[index];
+        if (suggestion) {
+            this.setQuery(suggestion.text);
+            this._search();
+        }
+    }
+
+    /**
+     * This opens or closes the advanced panel.
+     *
+     * @access private
+     * @type    {function}
+     * @params {boolean | Event} open Optional state, toggles when not a boolean
+     * @returns {void}
+     */
+    private _toggleAdvanced(open?: boolean | Event) {
+        const panel = <HTMLFieldSetElement> this.advancedPanel;
+        const show: boolean = typeof open === "boolean" ? open : panel.classList.contains("off");
+        panel.classList.toggle("off", !show);
+        (<HTMLButtonElement> this.advancedToggle).setAttribute('aria-expanded', String(show));
+        show && this._syncAdvanced();
+    }
+
+    /**
+     * This fills the advanced fields from the query typed into the input.
+     *
+     * @access private
+     * @type    {function}
+     * @params {void}
+     * @returns {void}
+     */
+    private _syncAdvanced() {
+        const panel = <HTMLFieldSetElement> this.advancedPanel;
+        if (panel.classList.contains("off")) {
+            return;
+        }
+        const query: BookQuery = parseQuery((<HTMLInputElement> this.searchInput).value);
+        panel.querySelectorAll("input").forEach((input) => {
+            const value: any = (<any> query)[input.name];
+            input.value = typeof value === "undefined" ? "" : String(value);
+        });
+    }
+
+    /**
+     * This writes the advanced fields into the input in the query mini-syntax,
+     * keeping the free text already typed there.
+     *
+     * @access private
+     * @type    {function}
+     * @params {void}
+     * @returns {void}
+     */
+    private _advancedChange() {
+        const query: BookQuery = {text: parseQuery((<HTMLInputElement> this.searchInput).value).text};
+        (<HTMLFieldSetElement> this.advancedPanel).querySelectorAll("input").forEach((input) => {
+            const value: string = input.value.trim();
+            if (value.length > 0) {
+                (<any> query)[input.name] = input.type === "number" ? parseInt(value, 10) : value;
+            }
+        });
+        (<HTMLInputElement> this.searchInput).value = formatQuery(query);
+        this._inputChange();
+    }
+
+    /**
+     * This creates the speech service on the first use of the microphone.
+     *
+     * @access private
+     * @type    {function}
+     * @params {void} 
+     * @returns {SpeechService} 
+     */
+    private _getSpeech(): SpeechService {
+        if (!this._speech) {
+            this._speech = new SpeechService({
+                interim: this._speechInterim.bind(this),
+                result: this._speechResult.bind(this),
+                stateChange: this._speechStateChange.bind(this)
+            });
+        }
+        return this._speech;
+    }
+
+    /**
+     * This toogles microphone active/inactive.
+     * When active the speech recognition is listening in the "speech-lang" language,
+     * by default the language of the browser.
+     * When inactive speech recognition is off.
+     *
+     * @access private
+     * @type    {function}
+     * @params {void} 
+     * @returns {void} 
+     */
+    private _toggleMic() {
+        if (this.disabled) {
+            return;
+        }
+        const speech = this._getSpeech();
+        if (speech.state === SpeechState.Listening) {
+            speech.stop();
+        } else {
+            this._textBeforeSpeech = (<HTMLInputElement> this.searchInput).value;
+            speech.start(this._speechLang());
+        }
+    }
+
+    /**
+     * This shows the transcript in the input while the user is speaking.
+     *
+     * @access private
+     * @type    {function}
+     * @params {string} transcript 
+     * @returns {void} 
+     */
+    private _speechInterim(transcript: string) {
+        (<HTMLInputElement> this.searchInput).value = transcript;
+        this._inputChange();
+    }
+
+    /**
+     * This raises "voicecommand" when the final transcript is a command and runs it,
+     * otherwise it puts the transcript into the input and searches for it.
+     *
+     * @access private
+     * @type    {function}
+     * @params {string} transcript 
+     * @returns {void} 
+     */
+    private _speechResult(transcript: string) {
+        const command: VoiceCommand | null = parseVoiceCommand(transcript, this._speechLang());
+        if (command) {
+            (<HTMLInputElement> this.searchInput).value = this._textBeforeSpeech;
+            this._inputChange();
+            const event: VoiceCommandEvent = new CustomEvent('voicecommand', {detail: command, bubbles: true, composed: true, cancelable: true});
+            this.dispatchEvent(event) && this._runVoiceCommand(command);
+            return;
+        }
+        (<HTMLInputElement> this.searchInput).value = transcript;
+        this._inputChange();
+        transcript.length > 0 && (<HTMLButtonElement> this.searchButton).click();
+    }
+
+    /**
+     * This runs the part of the voice command which concerns the input:
+     * searching and clearing. Scrolling and pausing is left to the carousel listening to the event.
+     *
+     * @access private
+     * @type    {function}
+     * @params {VoiceCommand} command 
+     * @returns {void} 
+     */
+    private _runVoiceCommand(command: VoiceCommand) {
+        switch (command.name) {
+            case 'search': {
+                command.argument.length > 0 && this.submit(command.argument);
+                break;
+            }
+            case 'author': {
+                command.argument.length > 0 && this.submit({author: command.argument});
+                break;
+            }
+            case 'clear': {
+                this.clear();
+                break;
+            }
+            default: break;
+        }
+    }
+
+    /**
+     * Language of the speech from the "speech-lang" attribute, by default the language of the browser.
+     *
+     * @access private
+     * @type    {function}
+     * @params {void} 
+     * @returns {string} 
+     */
+    private _speechLang(): string {
+        return this.getAttribute('speech-lang') || navigator.language || "en-US";
+    }
+
+    /**
+     * This reflects the state of the speech recognition in the microphone icon,
+     * the "speech-state" attribute and the status message.
+     *
+     * @access private
+     * @type    {function}
+     * @params {SpeechState} state 
+     * @returns {void} 
+     */
+    private _speechStateChange(state: SpeechState) {
+        const microphone = <HTMLElement> this.microphone;
+        const speechStatus = <HTMLSpanElement> this.speechStatus;
+        const listening: boolean = state === SpeechState.Listening;
+        microphone.classList.toggle("microphone-active", listening);
+        microphone.classList.toggle("microphone-inactive", !listening);
+        microphone.setAttribute('aria-pressed', String(listening));
+        this.setAttribute('speech-state', state);
+
+        let message: string = "";
+        switch (state) {
+            case SpeechState.Listening: {
+                message = "Listening…";
+                break;
+            }
+            case SpeechState.NoSpeech: {
+                message = "No speech was detected. Please try again.";
+                break;
+            }
+            case SpeechState.Denied: {
+                message = "Microphone access was denied.";
+                break;
+            }
+            case SpeechState.Error: {
+                message = "Speech recognition failed. Please try again.";
+                break;
+            }
+            default: break;
+        }
+        speechStatus.textContent = message;
+        speechStatus.classList.toggle("off", message === "");
+    }
+
+    /**
+     * This composes the detail payload for the search events from the current state.
+     *
+     * @access private
+     * @type    {function}
+     * @params {number} requestId sequence id of the request
+     * @params {Book[]} data books delivered by the event
+     * @params {number} page optional number of the page, the last loaded page by default
+     * @returns {BookSearchDetail} 
+     */
+    private _createDetail(requestId: number, data: Book[], page: number = this._page): BookSearchDetail {
+        return {
+            query: this._query,
+            data,
+            total: this._total,
+            page,
+            source: this._getProvider().name,
+            requestId,
+            cached: this._cached
+        };
+    }
+
+    /**
+     * This dispatches a BookSearchEvent of the given type for which 
+     * other HTML components can subscribe with addEventlistener().
+     * The event bubbles and is composed, so it can be caught outside of a shadow root.
+     *
+     * @access private
+     * @type    {function}
+     * @params {BookSearchEventType} type of the event
+     * @params {BookSearchDetail} detail payload of the event
+     * @returns {void} 
+     */
+    private _raiseSearchEvent(type: BookSearchEventType, detail: BookSearchDetail) {
+        const event: BookSearchEvent = new CustomEvent(type, {detail, bubbles: true, composed: true});
+        this.dispatchEvent(event);
+    }
+
+    /**
+     * This returns the array of data with Book information.
+     *
+     * @access public
+     * @type    {function}
+     * @params {void} 
+     * @returns {Book[] | null} When assigned returns array of data, ptherwise null
+     */
+    getData(): Book[] | null {
+        return this._data;
+    }
+
+    /**
+     * This returns the total number of books found for the last query,
+     * which can be larger than the number of books in getData().
+     *
+     * @access public
+     * @type    {function}
+     * @params {void} 
+     * @returns {number} Total number of books found
+     */
+    getTotal(): number {
+        return this._total;
+    }
+
+    /**
+     * This sets the provider used for searching.
+     * Either an instance implementing BookSearchProvider or a name of a registered provider.
+     *
+     * @access public
+     * @type    {function}
+     * @params {BookSearchProvider | string} provider instance or its registered name
+     * @returns {void} 
+     */
+    public setProvider(provider: BookSearchProvider | string) {
+        if (typeof provider === "string") {
+            const created = createProvider(provider, this.getAttribute('endpoint') || undefined);
+            if (!created) {
+                throw new Error(`Search provider "${provider}" is not registered`);
+            }
+            this._provider = created;
+        } else {
+            this._provider = provider;
+        }
+    }
+
+    /**
+     * This registers a search provider factory so that host pages can select it
+     * with the "provider" attribute or setProvider(name).
+     *
+     * @access static
+     * @type    {function}
+     * @params {string} name Name of the provider
+     * @params {BookSearchProviderFactory} factory Function creating the provider
+     * @returns {void} 
+     */
+    static registerProvider(name: string, factory: BookSearchProviderFactory) {
+        registerProvider(name, factory);
+    }
+
+    /**
+     * Registers patterns of a voice command, for a new command or an other wording or language.
+     * 
+     * @access public
+     * @type    {function}
+     * @params {string} name Name of the command raised in "voicecommand"
+     * @params {RegExp | RegExp[]} patterns Patterns of the phrase, ignoring the case, the first group is the argument
+     * @params {string} lang Language of the patterns, "en" by default
+     * @returns {void}
+     */
+    static registerVoiceCommand(name: string, patterns: RegExp | RegExp[], lang?: string) {
+        registerVoiceCommand(name, patterns, lang);
+    }
+
+    /**
+     * This sets the input text from outside.
+     * 
+     * @access public
+     * @type    {function}
+     * @params {string | BookQuery} new search term or structured query to be put into the HTMLInputElement
+     * @returns {void} 
+     */
+    public setQuery(searchTerm: string | BookQuery = "") {
+        (<HTMLInputElement> this.searchInput).value = typeof searchTerm === "string" ? searchTerm : formatQuery(searchTerm);
+        this._inputChange();
+        this._syncAdvanced();
+    }
+
+    /**
+     * The text of the query, submitted with the form under the "name" attribute.
+     * 
+     * @access public
+     * @type    {string}
+     */
+    get value(): string {
+        return this.searchInput ? this.searchInput.value : this.getAttribute('value') || "";
+    }
+
+    set value(value: string) {
+        this._dirty = true;
+        this.searchInput ? this.setQuery(value) : this.setAttribute('value', value);
+    }
+
+    /**
+     * Name under which the value is submitted with the form.
+     * 
+     * @access public
+     * @type    {string}
+     */
+    get name(): string {
+        return this.getAttribute('name') || "";
+    }
+
+    set name(name: string) {
+        this.setAttribute('name', name);
+    }
+
+    /**
+     * Whether the element is disabled by the attribute or by a disabled fieldset around.
+     * 
+     * @access public
+     * @type    {boolean}
+     */
+    get disabled(): boolean {
+        return this.hasAttribute('disabled') || this._formDisabled;
+    }
+
+    set disabled(disabled: boolean) {
+        disabled ? this.setAttribute('disabled', "") : this.removeAttribute('disabled');
+    }
+
+    /**
+     * The form the element belongs to, null without ElementInternals.
+     * 
+     * @access public
+     * @type    {HTMLFormElement | null}
+     */
+    get form(): HTMLFormElement | null {
+        return this._internals ? this._internals.form : null;
+    }
+
+    /**
+     * The validity of the value against "required" and "minlength".
+     * 
+     * @access public
+     * @type    {ValidityState | null}
+     */
+    get validity(): ValidityState | null {
+        return this._internals ? this._internals.validity : null;
+    }
+
+    /**
+     * The message describing why the value is invalid, empty if it is valid.
+     * 
+     * @access public
+     * @type    {string}
+     */
+    get validationMessage(): string {
+        return this._internals ? this._internals.validationMessage : "";
+    }
+
+    /**
+     * Tells whether the value is valid, raising "invalid" on the element if it is not.
+     * 
+     * @access public
+     * @type    {function}
+     * @params {void}
+     * @returns {boolean} 
+     */
+    public checkValidity(): boolean {
+        return this._internals ? this._internals.checkValidity() : true;
+    }
+
+    /**
+     * Tells whether the value is valid, showing the message to the user if it is not.
+     * 
+     * @access public
+     * @type    {function}
+     * @params {void}
+     * @returns {boolean} 
+     */
+    public reportValidity(): boolean {
+        return this._internals ? this._internals.reportValidity() : true;
+    }
+
+    /**
+     * This returns the query currently in the input parsed into its fields.
+     * 
+     * @access public
+     * @type    {function}
+     * @params {void}
+     * @returns {BookQuery} 
+     */
+    public getQuery(): BookQuery {
+        return parseQuery((<HTMLInputElement> this.searchInput).value);
+    }
+
+    /**
+     * This allows programmatically submitting the search query.
+     *
+     * @access public
+     * @type    {function}
+     * @params {string | BookQuery} optional search query to be set
+     * @returns {void} 
+     */
+    public submit(searchTerm?: string | BookQuery) {
         searchTerm && this.setQuery(searchTerm);
         this._search();
     }
+
+    /**
+     * Clears the query, aborting the search in flight.
+     * 
+     * @access public
+     * @type    {function}
+     * @params {void}
+     * @returns {void}
+     */
+    public clear() {
+        this._debounceTimer && clearTimeout(this._debounceTimer);
+        this._debounceTimer = null;
+        this._abort();
+        this.setQuery("");
+        this._closeSuggestions();
+        this._showError(null);
+    }
+
+    /**
+     * This removes all cached search results.
+     *
+     * @access public
+     * @type    {function}
+     * @params {void}
+     * @returns {Promise<void>}
+     */
+    public clearCache(): Promise<void> {
+        const cache: SearchCache | null = this._getCache();
+        return cache ? cache.clear() : Promise.resolve();
+    }
+
+    /**
+     * This removes all remembered queries.
+     *
+     * @access public
+     * @type    {function}
+     * @params {void}
+     * @returns {void}
+     */
+    public clearHistory() {
+        this._history.clear();
+        this._closeSuggestions();
+    }
+
+    /**
+     * This tells whether the last query has more pages than loaded so far.
+     * It is decided from the paging, as normalizing drops and merges books of the pages.
+     *
+     * @access public
+     * @type    {function}
+     * @params {void}
+     * @returns {boolean} true if loadMore() can fetch another page
+     */
+    public hasMore(): boolean {
+        return this._page > 0 && this._data !== null && this._page * this._pageSize < this._total;
+    }
+
+    /**
+     * This fetches the next page of the last query.
+     * Does nothing while a request is running or when all books are loaded.
+     *
+     * @access public
+     * @type    {function}
+     * @params {void}
+     * @returns {void} 
+     */
+    public loadMore() {
+        if (!this._loading && this.hasMore()) {
+            this._fetch(this._query, this._page + 1);
+        }
+    }
 }
 
 export default EkDottInput;
\ No newline at end of file
@@ -0,0 +1,79 @@
+/**
+ * Shared theme of the ek-dott components.
+ *
+ * The public --ek-dott-* custom properties are read once on the host into private --_* ones,
+ * so each rule only refers to the private name and the defaults live in one place.
+ * The light defaults apply unless the user agent prefers a dark color scheme,
+ * theme="light" or theme="dark" on the element forces one of them.
+ *
+ * --ek-dott-color-primary        Accent color of borders, buttons and titles, purple by default
+ * --ek-dott-color-primary-hover  Accent color of hovered buttons and of the focus ring
+ * --ek-dott-color-on-primary     Text color on the accent color
+ * --ek-dott-color-text           Color of the entered text and of the captions
+ * --ek-dott-color-muted          Color of secondary text: labels, history, time of the last search
+ * --ek-dott-color-background     Background of the components, the suggestions and the detail overlay
+ * --ek-dott-color-highlight      Background of the highlighted suggestion
+ * --ek-dott-color-error          Color of error messages
+ * --ek-dott-color-disabled       Color of disabled buttons and of the advanced panel border
+ * --ek-dott-font-family          Font family, sans-serif by default
+ * --ek-dott-font-size            Base font size, 1rem by default
+ * --ek-dott-spacing              Padding and margin of the components, 1rem by default
+ * --ek-dott-border               Border of the components, 2px solid in the accent color by default
+ * --ek-dott-border-radius        Radius of the component borders and of the buttons, 0 by default
+ * --ek-dott-focus-ring           Outline of focused elements, 2px solid in the hover accent by default
+ */
+const themeStyles = `
+    <style>
+        :host {
+            --_primary: var(--ek-dott-color-primary, purple);
+            --_primary-hover: var(--ek-dott-color-primary-hover, #8a3c8a);
+            --_on-primary: var(--ek-dott-color-on-primary, white);
+            --_text: var(--ek-dott-color-text, purple);
+            --_muted: var(--ek-dott-color-muted, grey);
+            --_background: var(--ek-dott-color-background, white);
+            --_highlight: var(--ek-dott-color-highlight, #f3e5f3);
+            --_error: var(--ek-dott-color-error, #b00020);
+            --_disabled: var(--ek-dott-color-disabled, #ccc);
+            --_font-family: var(--ek-dott-font-family, sans-serif);
+            --_font-size: var(--ek-dott-font-size, 1rem);
+            --_spacing: var(--ek-dott-spacing, 1rem);
+            --_border: var(--ek-dott-border, 2px solid var(--_primary));
+            --_radius: var(--ek-dott-border-radius, 0);
+            --_focus-ring: var(--ek-dott-focus-ring, 2px solid var(--_primary-hover));
+            color: var(--_text);
+            background: var(--_background);
+            font-family: var(--_font-family);
+            font-size: var(--_font-size);
+            border: var(--_border);
+            border-radius: var(--_radius);
+            padding: var(--_spacing);
+            margin: var(--_spacing);
+        }
+        :host([theme="dark"]) {
+            --_primary: var(--ek-dott-color-primary, #c792ea);
+            --_primary-hover: var(--ek-dott-color-primary-hover, #dbb8f2);
+            --_on-primary: var(--ek-dott-color-on-primary, #1e1b22);
+            --_text: var(--ek-dott-color-text, #ead7f7);
+            --_muted: var(--ek-dott-color-muted, #a59cad);
+            --_background: var(--ek-dott-color-background, #1e1b22);
+            --_highlight: var(--ek-dott-color-highlight, #3b2f47);
+            --_error: var(--ek-dott-color-error, #ff7a8a);
+            --_disabled: var(--ek-dott-color-disabled, #55505a);
+        }
+        @media (prefers-color-scheme: dark) {
+            :host(:not([theme="light"])) {
+                --_primary: var(--ek-dott-color-primary, #c792ea);
+                --_primary-hover: var(--ek-dott-color-primary-hover, #dbb8f2);
+                --_on-primary: var(--ek-dott-color-on-primary, #1e1b22);
+                --_text: var(--ek-dott-color-text, #ead7f7);
+                --_muted: var(--ek-dott-color-muted, #a59cad);
+                --_background: var(--ek-dott-color-background, #1e1b22);
+                --_highlight: var(--ek-dott-color-highlight, #3b2f47);
+                --_error: var(--ek-dott-color-error, #ff7a8a);
+                --_disabled: var(--ek-dott-color-disabled, #55505a);
+            }
+        }
+    </style>
+`;
+
+export default themeStyles;
@@ -0,0 +1,128 @@
+import {Book, BookQuery, BookSearchOptions, BookSearchProvider, BookSearchResult} from '../types';
+import SearchError, {SearchErrorKind} from './SearchError';
+import normalizeBooks from './normalizeBooks';
+import {parseQuery} from './bookQuery';
+
+/**
+* @class OpenLibraryProvider
+* searches for books with the OpenLibrary.org search API
+* and normalizes its documents into our Book type.
+*
+* @params {string} endPoint Optional URL of the OpenLibrary compatible search.json endpoint
+* @method search(query: string, options?: BookSearchOptions): Promise<BookSearchResult>
+* @method suggest(text: string, options?: BookSearchOptions): Promise<string[]>
+*/
+class OpenLibraryProvider implements BookSearchProvider {
+    //default end point for fetching books
+    static END_POINT: string = "http://openlibrary.org/search.json";
+    //OpenLibrary returns 100 documents per page
+    static PAGE_SIZE: number = 100;
+    //number of documents requested for suggestions
+    static SUGGESTIONS_LIMIT: number = 5;
+
+    readonly name: string = "openlibrary";
+    private endPoint: string;
+
+    /**
+     * Class constructor.
+     *
+     * @access public
+     * @type    {function}
+     * @params {string} endPoint Optional URL of the search endpoint
+     */
+    constructor(endPoint?: string) {
+        this.endPoint = endPoint || OpenLibraryProvider.END_POINT;
+    }
+
+    /**
+     * This builds the search.json parameters from the structured query.
+     * Title, author and subject have their own parameters,
+     * ISBN, language and the first publish year range are added to "q" in the Solr syntax.
+     *
+     * @access private
+     * @type    {function}
+     * @params {BookQuery} query
+     * @returns {string} URL encoded parameters
+     */
+    private _composeParams(query: BookQuery): string {
+        const params: string[] = [];
+        const q: string[] = [];
+        query.text && q.push(query.text);
+        query.isbn && q.push(`isbn:${query.isbn}`);
+        query.language && q.push(`language:${query.language}`);
+        if (typeof query.yearFrom === "number" || typeof query.yearTo === "number") {
+            const from = typeof query.yearFrom === "number" ? query.yearFrom : "*";
+            const to = typeof query.yearTo === "number" ? query.yearTo : "*";
+            q.push(`first_publish_year:[${from} TO ${to}]`);
+        }
+        q.length > 0 && params.push(`q=${encodeURIComponent(q.join(" "))}`);
+        query.title && params.push(`title=${encodeURIComponent(query.title)}`);
+        query.author && params.push(`author=${encodeURIComponent(query.author)}`);
+        query.subject && params.push(`subject=${encodeURIComponent(query.subject)}`);
+        return params.join("&");
+    }
+
+    /**
+     * This connects to the OpenLibrary and fetches the data by the provided query.
+     * The filters in the options are used when given, otherwise the query string is parsed.
+     *
+     * @access public
+     * @type    {function}
+     * @params {string} query query in the mini-syntax
+     * @params {BookSearchOptions} options Optional page to fetch, abort signal and parsed filters
+     * @returns {Promise<BookSearchResult>} one page of books with the paging information
+     * @throws {SearchError} for non-2xx responses and invalid JSON
+     */
+    async search(query: string, options: BookSearchOptions = {}): Promise<BookSearchResult> {
+        const page: number = options.page || 1;
+        const params: string = this._composeParams(options.filters || parseQuery(query));
+        const res: Response = await fetch(`${this.endPoint}?${params}&page=${page}`, {signal: options.signal});
+        if (!res.ok) {
+            throw SearchError.fromResponse(res);
+        }
+        let json: any;
+        try {
+            json = await res.json();
+        } catch (error) {
+            if (error.name === "AbortError") {
+                throw error;
+            }
+            throw new SearchError(SearchErrorKind.Parse, "Response is not valid JSON");
+        }
+        //validating and remapping a bunch of book data into our Book type
+        const data: Book[] = normalizeBooks(json.docs);
+
+        return {
+            data,
+            total: json.numFound || data.length,
+            page,
+            pageSize: OpenLibraryProvider.PAGE_SIZE
+        };
+    }
+
+    /**
+     * This fetches a few matching documents and suggests their titles and authors.
+     *
+     * @access public
+     * @type    {function}
+     * @params {string} text typed text
+     * @params {BookSearchOptions} options Optional abort signal
+     * @returns {Promise<string[]>} suggested queries without duplicates
+     */
+    async suggest(text: string, options: BookSearchOptions = {}): Promise<string[]> {
+        const limit: number = OpenLibraryProvider.SUGGESTIONS_LIMIT;
+        const res: Response = await fetch(`${this.endPoint}?q=${encodeURIComponent(text)}&limit=${limit}`, {signal: options.signal});
+        if (!res.ok) {
+            throw SearchError.fromResponse(res);
+        }
+        const json: any = await res.json();
+        const suggestions: string[] = [];
+        (json.docs || []).forEach((book: Book) => {
+            book.title && suggestions.push(book.title);
+            book.author_name && book.author_name.length > 0 && suggestions.push(book.author_name[0]);
+        });
+        return suggestions.filter((item, ind) => suggestions.indexOf(item) === ind);
+    }
+}
+
+export default OpenLibraryProvider;
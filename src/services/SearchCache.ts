@@ -0,0 +1,260 @@
+import {BookSearchResult} from '../types';
+
+/**
+ * @type CacheEntry
+ * represents one cached search result with the time it was stored
+ * */
+type CacheEntry = {
+    key: string,
+    time: number,
+    result: BookSearchResult
+}
+
+/**
+ * @type SearchCacheOptions
+ * configuration of the cache
+ *
+ * @member {number} ttl Time in ms for which an entry is fresh
+ * @member {number} maxEntries Maximum number of entries kept in memory and in IndexedDB
+ * @member {boolean} persistent Whether entries are also stored in IndexedDB
+ * */
+export type SearchCacheOptions = {
+    ttl?: number,
+    maxEntries?: number,
+    persistent?: boolean
+}
+
+//IndexedDB database and store holding persisted results, shared by all caches
+const DB_NAME: string = "ek-dott-search-cache";
+const STORE_NAME: string = "results";
+//index of the store by the time an entry was stored, oldest first
+const TIME_INDEX: string = "time";
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * This opens the IndexedDB database once.
+ * Resolves with null when IndexedDB is unavailable (private mode, old browser),
+ * so that the cache keeps working in memory only.
+ *
+ * @access private
+ * @type  {function}
+ * @params {void}
+ * @returns {Promise<IDBDatabase | null>}
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve) => {
+            if (typeof indexedDB === "undefined") {
+                resolve(null);
+                return;
+            }
+            try {
+                const request: IDBOpenDBRequest = indexedDB.open(DB_NAME, 2);
+                request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
+                    const store: IDBObjectStore = event.oldVersion < 1
+                        ? request.result.createObjectStore(STORE_NAME, {keyPath: "key"})
+                        : (<IDBTransaction> request.transaction).objectStore(STORE_NAME);
+                    //version 2 indexes the entries by time, so the oldest can be evicted
+                    store.createIndex(TIME_INDEX, "time");
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => resolve(null);
+            } catch (error) {
+                resolve(null);
+            }
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * This wraps an IDBRequest into a promise which never rejects.
+ *
+ * @access private
+ * @type  {function}
+ * @params {IDBRequest} request
+ * @returns {Promise<any>} result of the request or undefined on error
+ */
+function requestToPromise(request: IDBRequest): Promise<any> {
+    return new Promise((resolve) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(undefined);
+    });
+}
+
+/**
+* @class SearchCache
+* keeps search results keyed by provider, normalized query and page.
+* Recently used entries are kept in memory (LRU), optionally persisted in IndexedDB
+* so that they survive page reloads and can be served while offline.
+* IndexedDB keeps the most recently stored entries up to the same limit.
+*
+* @params {SearchCacheOptions} options
+* @method get(provider: string, query: string, page: number, allowStale?: boolean): Promise<BookSearchResult | null>
+* @method set(provider: string, query: string, page: number, result: BookSearchResult): void
+* @method clear(): Promise<void>
+*/
+class SearchCache {
+    //entries are fresh for 5 minutes by default
+    static DEFAULT_TTL: number = 5 * 60 * 1000;
+    static DEFAULT_MAX_ENTRIES: number = 50;
+
+    private _entries: Map<string, CacheEntry> = new Map();
+    private _ttl: number;
+    private _maxEntries: number;
+    private _persistent: boolean;
+
+    /**
+     * Class constructor.
+     *
+     * @access public
+     * @type  {function}
+     * @params {SearchCacheOptions} options
+     */
+    constructor(options: SearchCacheOptions = {}) {
+        this._ttl = typeof options.ttl === "number" ? options.ttl : SearchCache.DEFAULT_TTL;
+        this._maxEntries = options.maxEntries || SearchCache.DEFAULT_MAX_ENTRIES;
+        this._persistent = !!options.persistent;
+    }
+
+    /**
+     * This builds the cache key, queries differing in case or whitespace share the key.
+     *
+     * @access static
+     * @type  {function}
+     * @params {string} provider Identity of the provider, its name and endpoint
+     * @params {string} query Search term
+     * @params {number} page Number of the page
+     * @returns {string} cache key
+     */
+    static key(provider: string, query: string, page: number): string {
+        const normalized: string = query.trim().toLowerCase().replace(/\s+/g, " ");
+        return `${provider}|${normalized}|${page}`;
+    }
+
+    /**
+     * This looks the result up in memory first, then in IndexedDB.
+     *
+     * @access public
+     * @type  {function}
+     * @params {string} provider Identity of the provider, its name and endpoint
+     * @params {string} query Search term
+     * @params {number} page Number of the page
+     * @params {boolean} allowStale Whether an expired entry can be returned, e.g. when offline
+     * @returns {Promise<BookSearchResult | null>} cached result or null
+     */
+    async get(provider: string, query: string, page: number, allowStale: boolean = false): Promise<BookSearchResult | null> {
+        const key: string = SearchCache.key(provider, query, page);
+        let entry: CacheEntry | undefined = this._entries.get(key);
+        if (!entry && this._persistent) {
+            const db = await openDatabase();
+            if (db) {
+                entry = await requestToPromise(db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(key));
+            }
+        }
+        if (!entry || (!allowStale && this._isExpired(entry))) {
+            return null;
+        }
+        this._remember(entry);
+        return entry.result;
+    }
+
+    /**
+     * This stores the result in memory and, when persistent, in IndexedDB.
+     *
+     * @access public
+     * @type  {function}
+     * @params {string} provider Identity of the provider, its name and endpoint
+     * @params {string} query Search term
+     * @params {number} page Number of the page
+     * @params {BookSearchResult} result Result to be cached
+     * @returns {void}
+     */
+    set(provider: string, query: string, page: number, result: BookSearchResult): void {
+        const entry: CacheEntry = {key: SearchCache.key(provider, query, page), time: Date.now(), result};
+        this._remember(entry);
+        if (this._persistent) {
+            openDatabase().then((db) => {
+                if (db) {
+                    const store: IDBObjectStore = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+                    store.put(entry);
+                    this._evictStored(store);
+                }
+            });
+        }
+    }
+
+    /**
+     * This removes all entries from memory and IndexedDB.
+     *
+     * @access public
+     * @type  {function}
+     * @params {void}
+     * @returns {Promise<void>}
+     */
+    async clear(): Promise<void> {
+        this._entries.clear();
+        if (this._persistent) {
+            const db = await openDatabase();
+            db && await requestToPromise(db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).clear());
+        }
+    }
+
+    /**
+     * This tells whether the entry is older than the TTL.
+     *
+     * @access private
+     * @type  {function}
+     * @params {CacheEntry} entry
+     * @returns {boolean}
+     */
+    private _isExpired(entry: CacheEntry): boolean {
+        return Date.now() - entry.time > this._ttl;
+    }
+
+    /**
+     * This deletes the oldest entries of the store over the limit.
+     * Expired entries within the limit are kept as offline fallbacks.
+     *
+     * @access private
+     * @type  {function}
+     * @params {IDBObjectStore} store Store of a readwrite transaction
+     * @returns {void}
+     */
+    private _evictStored(store: IDBObjectStore): void {
+        const countRequest: IDBRequest = store.count();
+        countRequest.onsuccess = () => {
+            let excess: number = countRequest.result - this._maxEntries;
+            if (excess <= 0) {
+                return;
+            }
+            const cursorRequest: IDBRequest = store.index(TIME_INDEX).openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor: IDBCursorWithValue | null = cursorRequest.result;
+                if (cursor && excess-- > 0) {
+                    cursor.delete();
+                    cursor.continue();
+                }
+            };
+        };
+    }
+
+    /**
+     * This puts the entry at the most recently used end of the map
+     * and evicts the least recently used entries over the limit.
+     *
+     * @access private
+     * @type  {function}
+     * @params {CacheEntry} entry
+     * @returns {void}
+     */
+    private _remember(entry: CacheEntry): void {
+        this._entries.delete(entry.key);
+        this._entries.set(entry.key, entry);
+        while (this._entries.size > this._maxEntries) {
+            this._entries.delete(<string> this._entries.keys().next().value);
+        }
+    }
+}
+
+export default SearchCache;
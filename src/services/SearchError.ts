@@ -0,0 +1,98 @@
+/**
+ * @enum SearchErrorKind
+ * classifies why a search request failed
+ * */
+export enum SearchErrorKind {
+    Network = 'network',
+    Http = 'http',
+    Timeout = 'timeout',
+    Parse = 'parse',
+    RateLimited = 'rate-limited'
+}
+
+/**
+* @class SearchError
+* a typed error raised by the search providers and the retry logic.
+*
+* @params {SearchErrorKind} kind What went wrong
+* @params {string} message Description of the error
+* @params {number} status Optional HTTP status of the response
+* @params {number} retryAfter Optional delay in ms the server asked to wait before retrying
+* @member {boolean} transient Whether retrying the request may succeed
+*/
+class SearchError extends Error {
+    readonly kind: SearchErrorKind;
+    readonly status?: number;
+    readonly retryAfter?: number;
+
+    /**
+     * Class constructor.
+     *
+     * @access public
+     * @type  {function}
+     */
+    constructor(kind: SearchErrorKind, message: string, status?: number, retryAfter?: number) {
+        super(message);
+        this.name = "SearchError";
+        this.kind = kind;
+        this.status = status;
+        this.retryAfter = retryAfter;
+    }
+
+    /**
+     * Network failures, timeouts, rate limiting and server side (5xx) errors are worth retrying.
+     *
+     * @access public
+     * @type  {function}
+     * @returns {boolean}
+     */
+    get transient(): boolean {
+        switch (this.kind) {
+            case SearchErrorKind.Network:
+            case SearchErrorKind.Timeout:
+            case SearchErrorKind.RateLimited:
+                return true;
+            case SearchErrorKind.Http:
+                return typeof this.status === "number" && this.status >= 500;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * This creates the error for a non-2xx HTTP response.
+     * 429 is reported as rate limited together with the Retry-After header if present.
+     *
+     * @access static
+     * @type  {function}
+     * @params {Response} res The failed response
+     * @returns {SearchError}
+     */
+    static fromResponse(res: Response): SearchError {
+        if (res.status === 429) {
+            const retryAfter: number = parseInt(res.headers.get('Retry-After') || "", 10);
+            return new SearchError(SearchErrorKind.RateLimited, "Too many requests",
+                res.status, isNaN(retryAfter) ? undefined : retryAfter * 1000);
+        }
+        return new SearchError(SearchErrorKind.Http, `Server responded with ${res.status} ${res.statusText}`, res.status);
+    }
+
+    /**
+     * This wraps any error thrown while searching into a SearchError.
+     * Errors which are already SearchError are returned as they are,
+     * anything else (e.g. a TypeError from fetch) is treated as a network failure.
+     *
+     * @access static
+     * @type  {function}
+     * @params {any} error The caught error
+     * @returns {SearchError}
+     */
+    static from(error: any): SearchError {
+        if (error instanceof SearchError) {
+            return error;
+        }
+        return new SearchError(SearchErrorKind.Network, (error && error.message) || String(error));
+    }
+}
+
+export default SearchError;
@@ -0,0 +1,119 @@
+/**
+* @class SearchHistory
+* keeps the recently submitted queries in localStorage,
+* the most recent first, without duplicates and capped to a maximum length.
+*
+* @params {string} storageKey Key under which the queries are stored
+* @params {number} maxLength Maximum number of queries kept
+* @method add(query: string): void
+* @method list(): string[]
+* @method match(text: string, limit?: number): string[]
+* @method clear(): void
+*/
+class SearchHistory {
+    static STORAGE_KEY: string = "ek-dott-search-history";
+    static MAX_LENGTH: number = 20;
+
+    private _storageKey: string;
+    private _maxLength: number;
+
+    /**
+     * Class constructor.
+     *
+     * @access public
+     * @type  {function}
+     */
+    constructor(storageKey: string = SearchHistory.STORAGE_KEY, maxLength: number = SearchHistory.MAX_LENGTH) {
+        this._storageKey = storageKey;
+        this._maxLength = maxLength;
+    }
+
+    /**
+     * This puts the query at the top of the history, removing its earlier occurrence.
+     * Queries differing only in case or whitespace are treated as the same.
+     *
+     * @access public
+     * @type  {function}
+     * @params {string} query
+     * @returns {void}
+     */
+    add(query: string): void {
+        const trimmed: string = query.trim().replace(/\s+/g, " ");
+        if (trimmed.length === 0) {
+            return;
+        }
+        const lower: string = trimmed.toLowerCase();
+        const queries: string[] = this.list().filter((item) => item.toLowerCase() !== lower);
+        queries.unshift(trimmed);
+        this._save(queries.slice(0, this._maxLength));
+    }
+
+    /**
+     * This returns the stored queries, the most recent first.
+     *
+     * @access public
+     * @type  {function}
+     * @params {void}
+     * @returns {string[]}
+     */
+    list(): string[] {
+        try {
+            const stored: any = JSON.parse(localStorage.getItem(this._storageKey) || "[]");
+            return Array.isArray(stored) ? stored.filter((item: any) => typeof item === "string") : [];
+        } catch (error) {
+            //storage is unavailable or holds something else
+            return [];
+        }
+    }
+
+    /**
+     * This returns the queries containing the text, those starting with it first.
+     *
+     * @access public
+     * @type  {function}
+     * @params {string} text Typed text, an empty text matches every query
+     * @params {number} limit Maximum number of returned queries
+     * @returns {string[]}
+     */
+    match(text: string, limit: number = 5): string[] {
+        const lower: string = text.trim().toLowerCase();
+        const queries: string[] = this.list().filter((item) => item.toLowerCase().indexOf(lower) !== -1);
+        const starting: string[] = queries.filter((item) => item.toLowerCase().indexOf(lower) === 0);
+        const others: string[] = queries.filter((item) => item.toLowerCase().indexOf(lower) !== 0);
+        return [...starting, ...others].slice(0, limit);
+    }
+
+    /**
+     * This removes all stored queries.
+     *
+     * @access public
+     * @type  {function}
+     * @params {void}
+     * @returns {void}
+     */
+    clear(): void {
+        try {
+            localStorage.removeItem(this._storageKey);
+        } catch (error) {
+            //nothing to clear when storage is unavailable
+        }
+    }
+
+    /**
+     * This writes the queries into localStorage.
+     *
+     * @access private
+     * @type  {function}
+     * @params {string[]} queries
+     * @returns {void}
+     */
+    private _save(queries: string[]): void {
+        try {
+            localStorage.setItem(this._storageKey, JSON.stringify(queries));
+        } catch (error) {
+            //storage is full or unavailable, history is not essential
+        }
+    }
+}
+
+export default SearchHistory;
@@ -0,0 +1,203 @@
+import {SpeechRecognitionLike, SpeechWindow} from '../types';
+
+/**
+ * @enum SpeechState
+ * what the speech service is doing or why it stopped
+ * */
+export enum SpeechState {
+    Idle = 'idle',
+    Listening = 'listening',
+    NoSpeech = 'no-speech',
+    Denied = 'denied',
+    Unsupported = 'unsupported',
+    Error = 'error'
+}
+
+/**
+ * @type SpeechCallbacks
+ * receive what the speech service hears
+ *
+ * @member {function} interim The transcript so far while speaking
+ * @member {function} result The final transcript
+ * @member {function} stateChange The new state of the service
+ * */
+export type SpeechCallbacks = {
+    interim: (transcript: string) => void,
+    result: (transcript: string) => void,
+    stateChange: (state: SpeechState) => void
+};
+
+/**
+* @class SpeechService
+* wraps one speech recognizer, the standard SpeechRecognition
+* or the webkit-prefixed one, which is re-used for every start.
+*
+* @params {SpeechCallbacks} callbacks
+* @member {SpeechState} state
+* @method start(lang: string): void
+* @method stop(): void - stops listening and delivers what was heard
+* @method abort(): void - stops listening and drops what was heard
+* @method static isSupported(): boolean
+*/
+class SpeechService {
+    private _callbacks: SpeechCallbacks;
+    private _recognition: SpeechRecognitionLike | null = null;
+    private _state: SpeechState = SpeechState.Idle;
+
+    /**
+     * Class constructor.
+     *
+     * @access public
+     * @type  {function}
+     */
+    constructor(callbacks: SpeechCallbacks) {
+        this._callbacks = callbacks;
+        this._state = SpeechService.isSupported() ? SpeechState.Idle : SpeechState.Unsupported;
+    }
+
+    /**
+     * This tells whether the browser has a speech recognizer.
+     *
+     * @access public
+     * @type  {function}
+     * @params {void}
+     * @returns {boolean}
+     */
+    static isSupported(): boolean {
+        const speechWindow = <SpeechWindow> window;
+        return !!(speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition);
+    }
+
+    /**
+     * The current state.
+     *
+     * @access public
+     * @type  {SpeechState}
+     */
+    get state(): SpeechState {
+        return this._state;
+    }
+
+    /**
+     * This starts listening in the language, unless it is listening already.
+     *
+     * @access public
+     * @type  {function}
+     * @params {string} lang BCP 47 language, e.g. "en-US"
+     * @returns {void}
+     */
+    start(lang: string): void {
+        const recognition = this._getRecognition();
+        if (!recognition || this._state === SpeechState.Listening) {
+            return;
+        }
+        recognition.lang = lang;
+        //set right away, so a second start before onstart does not throw
+        this._setState(SpeechState.Listening);
+        try {
+            recognition.start();
+        } catch (error) {
+            this._setState(SpeechState.Error);
+        }
+    }
+
+    /**
+     * This stops listening, the recognizer still delivers the final transcript.
+     *
+     * @access public
+     * @type  {function}
+     * @params {void}
+     * @returns {void}
+     */
+    stop(): void {
+        this._recognition && this._state === SpeechState.Listening && this._recognition.stop();
+    }
+
+    /**
+     * This stops listening and drops what was heard.
+     *
+     * @access public
+     * @type  {function}
+     * @params {void}
+     * @returns {void}
+     */
+    abort(): void {
+        if (this._recognition && this._state === SpeechState.Listening) {
+            this._recognition.abort();
+            this._setState(SpeechState.Idle);
+        }
+    }
+
+    /**
+     * This creates the recognizer on the first use.
+     *
+     * @access private
+     * @type  {function}
+     * @params {void}
+     * @returns {SpeechRecognitionLike | null} null when the browser has none
+     */
+    private _getRecognition(): SpeechRecognitionLike | null {
+        if (!this._recognition) {
+            const speechWindow = <SpeechWindow> window;
+            const Recognition = speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+            if (!Recognition) {
+                return null;
+            }
+            const recognition = new Recognition();
+            recognition.continuous = false;
+            recognition.interimResults = true;
+            recognition.onresult = (event) => {
+                let transcript: string = "";
+                let isFinal: boolean = false;
+                for (let index = 0; index < event.results.length; index++) {
+                    transcript += event.results[index][0].transcript;
+                    isFinal = event.results[index].isFinal;
+                }
+                isFinal ? this._callbacks.result(transcript.trim()) : this._callbacks.interim(transcript);
+            };
+            recognition.onerror = (event) => {
+                switch (event.error) {
+                    case 'no-speech': {
+                        this._setState(SpeechState.NoSpeech);
+                        break;
+                    }
+                    case 'not-allowed':
+                    case 'service-not-allowed': {
+                        this._setState(SpeechState.Denied);
+                        break;
+                    }
+                    case 'aborted': {
+                        break;
+                    }
+                    default: {
+                        this._setState(SpeechState.Error);
+                        break;
+                    }
+                }
+            };
+            recognition.onend = () => {
+                //an error has set its own state already
+                this._state === SpeechState.Listening && this._setState(SpeechState.Idle);
+            };
+            this._recognition = recognition;
+        }
+        return this._recognition;
+    }
+
+    /**
+     * This changes the state and tells the callback.
+     *
+     * @access private
+     * @type  {function}
+     * @params {SpeechState} state
+     * @returns {void}
+     */
+    private _setState(state: SpeechState) {
+        if (this._state !== state) {
+            this._state = state;
+            this._callbacks.stateChange(state);
+        }
+    }
+}
+
+export default SpeechService;
@@ -0,0 +1,102 @@
+import {BookQuery} from '../types';
+
+//text fields of BookQuery as written in the mini-syntax, "lang" is a short alias of "language"
+const FIELD_KEYS: {[key: string]: keyof BookQuery} = {
+    title: 'title',
+    author: 'author',
+    subject: 'subject',
+    isbn: 'isbn',
+    language: 'language',
+    lang: 'language'
+};
+
+//matches key:value, key:"quoted value" or a bare (possibly quoted) word,
+//quoted values escape a quote or a backslash with a backslash
+const TOKEN: RegExp = /(\w+):(?:"((?:[^"\\]|\\.)*)"|(\S+))|"((?:[^"\\]|\\.)*)"|(\S+)/g;
+
+/**
+ * This parses the year filter: "1950", "1950..1960", "1950.." or "..1960".
+ *
+ * @access private
+ * @type  {function}
+ * @params {string} value
+ * @returns {{yearFrom?: number, yearTo?: number} | null} the range or null when the value is not a year
+ */
+function parseYears(value: string): {yearFrom?: number, yearTo?: number} | null {
+    const match = /^(\d{1,4})?(?:(\.\.)(\d{1,4})?)?$/.exec(value);
+    if (!match || (!match[1] && !match[3])) {
+        return null;
+    }
+    const from: number | undefined = match[1] ? parseInt(match[1], 10) : undefined;
+    const to: number | undefined = match[2] ? (match[3] ? parseInt(match[3], 10) : undefined) : from;
+    return {yearFrom: from, yearTo: to};
+}
+
+/**
+ * This parses the query mini-syntax into a BookQuery.
+ * Recognised filters are title:, author:, subject:, isbn:, language: (or lang:) and year:,
+ * values with spaces are quoted, e.g. 'title:"the hobbit" author:tolkien year:1950..1960',
+ * a quote inside a quoted value is escaped with a backslash, e.g. 'title:"say \"hi\""'.
+ * Everything else, including unknown filters, is kept as free text.
+ *
+ * @access public
+ * @type  {function}
+ * @params {string} input Query as typed
+ * @returns {BookQuery}
+ */
+export function parseQuery(input: string): BookQuery {
+    const query: BookQuery = {};
+    const text: string[] = [];
+    let token: RegExpExecArray | null;
+    TOKEN.lastIndex = 0;
+    while ((token = TOKEN.exec(input)) !== null) {
+        const [whole, key, quotedValue, value, quotedText, word] = token;
+        if (key) {
+            const lowerKey: string = key.toLowerCase();
+            const fieldValue: string = typeof quotedValue === "string" ? quotedValue.replace(/\\(.)/g, "$1") : value;
+            const years = lowerKey === 'year' ? parseYears(fieldValue) : null;
+            if (years) {
+                Object.assign(query, years);
+            } else
+            if (FIELD_KEYS[lowerKey] && fieldValue.trim().length > 0) {
+                (<any> query)[FIELD_KEYS[lowerKey]] = fieldValue.trim();
+            } else {
+                text.push(whole);
+            }
+        } else {
+            text.push(typeof quotedText === "string" ? `"${quotedText}"` : word);
+        }
+    }
+    if (text.length > 0) {
+        query.text = text.join(" ");
+    }
+    return query;
+}
+
+/**
+ * This writes the BookQuery back in the mini-syntax, quoting values with spaces or quotes,
+ * so that parseQuery(formatQuery(query)) equals a query returned by parseQuery.
+ *
+ * @access public
+ * @type  {function}
+ * @params {BookQuery} query
+ * @returns {string}
+ */
+export function formatQuery(query: BookQuery): string {
+    const parts: string[] = [];
+    query.text && parts.push(query.text);
+    ['title', 'author', 'subject', 'isbn', 'language'].forEach((key) => {
+        const value: string | undefined = (<any> query)[key];
+        if (value) {
+            parts.push(/[\s"]/.test(value) ? `${key}:"${value.replace(/["\\]/g, "\\$&")}"` : `${key}:${value}`);
+        }
+    });
+    const {yearFrom, yearTo} = query;
+    if (typeof yearFrom === "number" || typeof yearTo === "number") {
+        const from: string = typeof yearFrom === "number" ? `${yearFrom}` : "";
+        const to: string = typeof yearTo === "number" ? `${yearTo}` : "";
+        parts.push(yearFrom === yearTo ? `year:${from}` : `year:${from}..${to}`);
+    }
+    return parts.join(" ");
+}
+
@@ -0,0 +1,28 @@
+import SearchError from './SearchError';
+
+//OpenLibrary works are served as JSON at their key, e.g. https://openlibrary.org/works/OL27482W.json
+const WORKS_ORIGIN: string = "https://openlibrary.org";
+
+/**
+ * This fetches the description of a work from the OpenLibrary works endpoint.
+ * The description comes either as a plain string or as {type, value}.
+ *
+ * @access public
+ * @type  {function}
+ * @params {string} key Path of the work, e.g. "/works/OL27482W"
+ * @params {AbortSignal} signal Optional signal to cancel the request
+ * @returns {Promise<string>} the description, empty when the work has none
+ * @throws {SearchError} for non-2xx responses
+ */
+export default async function fetchWorkDescription(key: string, signal?: AbortSignal): Promise<string> {
+    const res: Response = await fetch(`${WORKS_ORIGIN}${key}.json`, {signal});
+    if (!res.ok) {
+        throw SearchError.fromResponse(res);
+    }
+    const work: any = await res.json();
+    const {description} = work;
+    if (typeof description === "string") {
+        return description;
+    }
+    return description && typeof description.value === "string" ? description.value : "";
+}
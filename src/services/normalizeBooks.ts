@@ -0,0 +1,167 @@
+import {Book} from '../types';
+
+//OLIDs: works end with W, editions with M
+const WORK_OLID: RegExp = /OL\d+W/;
+const EDITION_OLID: RegExp = /^OL\d+M$/;
+
+/**
+ * This coerces a value to a trimmed non empty string.
+ *
+ * @access private
+ * @type  {function}
+ * @params {any} value
+ * @returns {string | undefined}
+ */
+function toText(value: any): string | undefined {
+    if (typeof value === "number") {
+        return String(value);
+    }
+    if (typeof value !== "string") {
+        return undefined;
+    }
+    const text: string = value.trim();
+    return text.length > 0 ? text : undefined;
+}
+
+/**
+ * This coerces a value to a finite number, numeric strings included.
+ *
+ * @access private
+ * @type  {function}
+ * @params {any} value
+ * @returns {number | undefined}
+ */
+function toNumber(value: any): number | undefined {
+    const number: number = typeof value === "string" && value.trim().length > 0 ? Number(value) : value;
+    return typeof number === "number" && isFinite(number) ? number : undefined;
+}
+
+/**
+ * This coerces a value to an array of unique non empty strings,
+ * a single string becomes an array of one.
+ *
+ * @access private
+ * @type  {function}
+ * @params {any} value
+ * @returns {string[] | undefined}
+ */
+function toTextList(value: any): string[] | undefined {
+    const values: any[] = Array.isArray(value) ? value : [value];
+    const texts = <string[]> values.map(toText).filter((text) => typeof text === "string");
+    const unique: string[] = texts.filter((text, ind) => texts.indexOf(text) === ind);
+    return unique.length > 0 ? unique : undefined;
+}
+
+/**
+ * This validates and coerces one raw document of the OpenLibrary search API into a Book.
+ * Documents without a title are malformed and give null.
+ * Optional fields which are missing or invalid are left out.
+ *
+ * @access public
+ * @type  {function}
+ * @params {any} raw Document as returned by the API
+ * @returns {Book | null}
+ */
+export function normalizeBook(raw: any): Book | null {
+    if (!raw || typeof raw !== "object") {
+        return null;
+    }
+    const title: string | undefined = toText(raw.title);
+    if (!title) {
+        return null;
+    }
+    const book: Book = {
+        title,
+        author_name: toTextList(raw.author_name) || []
+    };
+    const key: string | undefined = toText(raw.key);
+    const workMatch = key ? WORK_OLID.exec(key) : null;
+    const editionKeys: string[] | undefined = toTextList(raw.edition_key);
+    const optional: {[field: string]: any} = {
+        cover_i: toNumber(raw.cover_i),
+        isbn: toTextList(raw.isbn),
+        img_url: toText(raw.img_url),
+        key,
+        work_key: workMatch ? workMatch[0] : undefined,
+        edition_key: editionKeys && editionKeys.filter((olid) => EDITION_OLID.test(olid)),
+        first_publish_year: toNumber(raw.first_publish_year),
+        edition_count: toNumber(raw.edition_count),
+        publisher: toTextList(raw.publisher),
+        subject: toTextList(raw.subject),
+        language: toTextList(raw.language),
+        ratings_average: toNumber(raw.ratings_average),
+        ratings_count: toNumber(raw.ratings_count)
+    };
+    Object.keys(optional).forEach((field) => {
+        const value: any = optional[field];
+        if (typeof value !== "undefined" && !(Array.isArray(value) && value.length === 0)) {
+            (<any> book)[field] = value;
+        }
+    });
+    return book;
+}
+
+/**
+ * This tells which books are editions of the same work:
+ * by the work OLID, or by the title and the first author when there is none.
+ *
+ * @access private
+ * @type  {function}
+ * @params {Book} book
+ * @returns {string}
+ */
+function workIdentity(book: Book): string {
+    return book.work_key || `${book.title}|${book.author_name[0] || ""}`.toLowerCase();
+}
+
+/**
+ * This merges the lists of two editions keeping every value once.
+ *
+ * @access private
+ * @type  {function}
+ * @params {string[]} first
+ * @params {string[]} second
+ * @returns {string[] | undefined}
+ */
+function mergeLists(first?: string[], second?: string[]): string[] | undefined {
+    return first || second ? toTextList([...(first || []), ...(second || [])]) : undefined;
+}
+
+/**
+ * This normalizes the raw documents, drops the malformed ones
+ * and deduplicates editions of the same work.
+ * The first edition is kept, ISBNs and edition OLIDs of the others are merged into it.
+ *
+ * @access public
+ * @type  {function}
+ * @params {any} docs Array of documents as returned by the API
+ * @returns {Book[]}
+ */
+export default function normalizeBooks(docs: any): Book[] {
+    if (!Array.isArray(docs)) {
+        return [];
+    }
+    const books: Book[] = [];
+    const byWork: Map<string, Book> = new Map();
+    docs.forEach((raw) => {
+        const book: Book | null = normalizeBook(raw);
+        if (!book) {
+            return;
+        }
+        const identity: string = workIdentity(book);
+        const known: Book | undefined = byWork.get(identity);
+        if (known) {
+            const isbn = mergeLists(known.isbn, book.isbn);
+            const editionKey = mergeLists(known.edition_key, book.edition_key);
+            isbn && (known.isbn = isbn);
+            editionKey && (known.edition_key = editionKey);
+            if (typeof known.cover_i === "undefined" && typeof book.cover_i !== "undefined") {
+                known.cover_i = book.cover_i;
+            }
+            return;
+        }
+        byWork.set(identity, book);
+        books.push(book);
+    });
+    return books;
+}
@@ -0,0 +1,39 @@
+import {BookSearchProvider, BookSearchProviderFactory} from '../types';
+import OpenLibraryProvider from './OpenLibraryProvider';
+
+//name of the provider used when none is selected
+export const DEFAULT_PROVIDER: string = "openlibrary";
+
+//registered provider factories by their names
+const factories: Map<string, BookSearchProviderFactory> = new Map();
+
+/**
+ * This registers a provider factory under the given name
+ * so that it can be selected with the "provider" attribute.
+ * Registering under an existing name replaces the previous factory.
+ *
+ * @access public
+ * @type  {function}
+ * @params {string} name Name of the provider
+ * @params {BookSearchProviderFactory} factory Function creating the provider
+ * @returns {void}
+ */
+export function registerProvider(name: string, factory: BookSearchProviderFactory): void {
+    factories.set(name.toLowerCase(), factory);
+}
+
+/**
+ * This creates a provider registered under the given name.
+ *
+ * @access public
+ * @type  {function}
+ * @params {string} name Name of the provider
+ * @params {string} endPoint Optional endpoint URL passed to the factory
+ * @returns {BookSearchProvider | null} The provider or null if none is registered with the name
+ */
+export function createProvider(name: string, endPoint?: string): BookSearchProvider | null {
+    const factory = factories.get(name.toLowerCase());
+    return factory ? factory(endPoint) : null;
+}
+
+registerProvider(DEFAULT_PROVIDER, (endPoint?: string) => new OpenLibraryProvider(endPoint));
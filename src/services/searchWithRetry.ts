@@ -0,0 +1,108 @@
+import {BookSearchOptions, BookSearchProvider, BookSearchResult} from '../types';
+import SearchError, {SearchErrorKind} from './SearchError';
+
+/**
+ * @type RetryOptions
+ * how searches are retried
+ *
+ * @member {number} retries Number of retries after the first attempt
+ * @member {number} timeout Time in ms after which one attempt is aborted
+ * @member {number} baseDelay Delay in ms before the first retry, doubled for every next one
+ * */
+export type RetryOptions = {
+    retries: number,
+    timeout: number,
+    baseDelay: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    retries: 2,
+    timeout: 10000,
+    baseDelay: 500
+};
+
+/**
+ * This waits for the given time, rejecting early when the signal aborts.
+ *
+ * @access private
+ * @type  {function}
+ * @params {number} delay Time in ms
+ * @params {AbortSignal} signal Optional signal to cancel waiting
+ * @returns {Promise<void>}
+ */
+function wait(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, delay);
+        signal && signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException("Aborted", "AbortError"));
+        });
+    });
+}
+
+/**
+ * This runs one search attempt which is aborted after the timeout.
+ * Aborting the outer signal aborts the attempt too.
+ *
+ * @access private
+ * @type  {function}
+ * @params {BookSearchProvider} provider
+ * @params {string} query
+ * @params {BookSearchOptions} options Page, filters and the outer abort signal
+ * @params {number} timeout Time in ms
+ * @returns {Promise<BookSearchResult>}
+ */
+async function attempt(provider: BookSearchProvider, query: string, options: BookSearchOptions, timeout: number): Promise<BookSearchResult> {
+    const controller = new AbortController();
+    const {signal} = options;
+    const abort = () => controller.abort();
+    let timedOut: boolean = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeout);
+    signal && signal.addEventListener('abort', abort);
+    try {
+        return await provider.search(query, {...options, signal: controller.signal});
+    } catch (error) {
+        if (timedOut) {
+            throw new SearchError(SearchErrorKind.Timeout, `No response within ${timeout}ms`);
+        }
+        if (signal && signal.aborted) {
+            //cancelled from outside, not an error of the search
+            throw error;
+        }
+        throw SearchError.from(error);
+    } finally {
+        clearTimeout(timer);
+        signal && signal.removeEventListener('abort', abort);
+    }
+}
+
+/**
+ * This searches with the provider, retrying transient failures with exponential backoff.
+ * Rate limited responses wait at least as long as the server asked.
+ *
+ * @access public
+ * @type  {function}
+ * @params {BookSearchProvider} provider
+ * @params {string} query
+ * @params {BookSearchOptions} options Page, filters and abort signal
+ * @params {RetryOptions} retryOptions
+ * @returns {Promise<BookSearchResult>} the result, rejects with SearchError or AbortError
+ */
+export default async function searchWithRetry(provider: BookSearchProvider, query: string,
+                                              options: BookSearchOptions = {},
+                                              retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<BookSearchResult> {
+    for (let retry = 0; ; retry++) {
+        try {
+            return await attempt(provider, query, options, retryOptions.timeout);
+        } catch (error) {
+            if (!(error instanceof SearchError) || !error.transient || retry >= retryOptions.retries) {
+                throw error;
+            }
+            const delay: number = retryOptions.baseDelay * Math.pow(2, retry);
+            await wait(Math.max(delay, error.retryAfter || 0), options.signal);
+        }
+    }
+}
@@ -0,0 +1,70 @@
+import {VoiceCommand} from '../types';
+
+//language whose grammar is used when there is none for the language of the speech
+export const DEFAULT_LANGUAGE: string = "en";
+
+//registered command patterns by their language, in the order they are tried
+const grammars: Map<string, {name: string, pattern: RegExp}[]> = new Map();
+
+/**
+ * This registers patterns of a command for the language.
+ * A transcript matching a pattern in full is the command,
+ * the first capturing group of the pattern, if any, is its argument.
+ * The patterns are tried in the order of registration, the built-in ones first.
+ *
+ * @access public
+ * @type  {function}
+ * @params {string} name Name of the command
+ * @params {RegExp | RegExp[]} patterns Patterns matched against the transcript, ignoring the case
+ * @params {string} lang Language of the patterns, "en" by default, e.g. "de" or "pt-br"
+ * @returns {void}
+ */
+export function registerVoiceCommand(name: string, patterns: RegExp | RegExp[], lang: string = DEFAULT_LANGUAGE): void {
+    const key: string = lang.toLowerCase();
+    const grammar = grammars.get(key) || [];
+    (Array.isArray(patterns) ? patterns : [patterns]).forEach((pattern) => {
+        //without "g" and "y", so that exec() does not carry lastIndex from one transcript to the next
+        const flags: string = pattern.flags.replace(/[gyi]/g, "");
+        grammar.push({name, pattern: new RegExp(pattern.source, `${flags}i`)});
+    });
+    grammars.set(key, grammar);
+}
+
+/**
+ * This recognizes the command in the transcript with the grammar of the language,
+ * or of its primary language ("de" for "de-AT"), or of the default language.
+ *
+ * @access public
+ * @type  {function}
+ * @params {string} transcript The recognized phrase
+ * @params {string} lang Language of the speech, e.g. "en-US"
+ * @returns {VoiceCommand | null} The command or null if the transcript is none
+ */
+export function parseVoiceCommand(transcript: string, lang: string = DEFAULT_LANGUAGE): VoiceCommand | null {
+    const key: string = lang.toLowerCase();
+    const grammar = grammars.get(key) || grammars.get(key.split("-")[0]) || grammars.get(DEFAULT_LANGUAGE) || [];
+    const phrase: string = transcript.trim().replace(/\s+/g, " ").replace(/[.!?]+$/, "");
+    for (const {name, pattern} of grammar) {
+        const match = pattern.exec(phrase);
+        if (match && match[0] === phrase) {
+            return {name, argument: (match[1] || "").trim(), transcript: transcript.trim()};
+        }
+    }
+    return null;
+}
+
+registerVoiceCommand('search', /^(?:search|look|find)(?: for)? (.+)$/);
+registerVoiceCommand('author', /^(?:books|anything|something) (?:by|from) (.+)$/);
+registerVoiceCommand('nextpage', /^(?:next page|show more|more books)$/);
+registerVoiceCommand('previouspage', /^(?:previous page|go back|back)$/);
+registerVoiceCommand('pause', /^(?:pause|stop|wait)$/);
+registerVoiceCommand('resume', /^(?:resume|continue|play|go on)$/);
+registerVoiceCommand('clear', /^(?:clear|reset|start over)$/);
+
+registerVoiceCommand('search', /^(?:suche|finde)(?: nach)? (.+)$/, "de");
+registerVoiceCommand('author', /^bücher von (.+)$/, "de");
+registerVoiceCommand('nextpage', /^(?:nächste seite|mehr bücher)$/, "de");
+registerVoiceCommand('previouspage', /^(?:vorige seite|zurück)$/, "de");
+registerVoiceCommand('pause', /^(?:pause|anhalten|stopp)$/, "de");
+registerVoiceCommand('resume', /^(?:weiter|fortsetzen)$/, "de");
+registerVoiceCommand('clear', /^(?:löschen|zurücksetzen)$/, "de");
@@ -1,7 +1,25 @@
+import SearchError from './services/SearchError';
+
 /**
  * @type Book
  * represent a portion of information about the book
  * extracted from the OpenLibrary API
+ *
+ * @member {string[]} author_name Names of the authors
+ * @member {string} title
+ * @member {number} cover_i Id of the cover image
+ * @member {string[]} isbn ISBNs of the editions
+ * @member {string} img_url Optional URL of the cover image overriding cover_i and isbn
+ * @member {string} key Path of the book on OpenLibrary, e.g. "/works/OL27448W"
+ * @member {string} work_key OLID of the work, e.g. "OL27448W"
+ * @member {string[]} edition_key OLIDs of the editions of the work, e.g. "OL9235919M"
+ * @member {number} first_publish_year
+ * @member {number} edition_count Number of the editions of the work
+ * @member {string[]} publisher
+ * @member {string[]} subject
+ * @member {string[]} language Language codes, e.g. "eng"
+ * @member {number} ratings_average Average rating from 1 to 5
+ * @member {number} ratings_count Number of ratings
  * */
 export type Book = {
   author_name: string[],
@@ -9,30 +27,295 @@ export type Book = {
   cover_i?: number,
   isbn?: string[],
   img_url?: string,
-  key?: string
+  key?: string,
+  work_key?: string,
+  edition_key?: string[],
+  first_publish_year?: number,
+  edition_count?: number,
+  publisher?: string[],
+  subject?: string[],
+  language?: string[],
+  ratings_average?: number,
+  ratings_count?: number
 }
 
 /**
- * @interface BookSearchEvent
- * adds additional optional field in the Event which the web component raises
- * the events can be caught by other comcpnents whcih can use the data fetched
+ * @type BookSearchDetail
+ * the detail payload of the events which EkDottInput raises,
+ * the events can be caught by other components which can use the data fetched
  *
- * @member {string} error
- * @member {Book[]} data
+ * @member {string} query The search term of the request
+ * @member {Book[]} data Books delivered by the event, the next page only for "searchpage"
+ * @member {number} total Total number of books found for the query
+ * @member {number} page Number of the requested page starting from 1
+ * @member {string} source Name of the provider which served the request
+ * @member {number} requestId Sequence id of the search request, listeners can discard stale results
+ * @member {boolean} cached Whether the data was served from the cache
+ * @member {SearchError} error Why the search failed, for "searcherror" only
  * */
-export interface BookSearchEvent extends Event {
-  error?: string;
-  data?: Book[] | null;
+export type BookSearchDetail = {
+  query: string,
+  data: Book[],
+  total: number,
+  page: number,
+  source: string,
+  requestId: number,
+  cached: boolean,
+  error?: SearchError
+}
+
+/**
+ * @type BookSearchEvent
+ * a CustomEvent carrying BookSearchDetail, it bubbles and crosses shadow boundaries
+ * */
+export type BookSearchEvent = CustomEvent<BookSearchDetail>;
+
+/**
+ * @type BookSearchEventType
+ * names of the events raised by EkDottInput during a search lifecycle
+ * */
+export type BookSearchEventType = 'searchstart' | 'searchdone' | 'searchpage' | 'searchempty' | 'searcherror' | 'searchabort';
+
+/**
+ * @interface BookSearchSource
+ * an element raising the search events which a carousel can subscribe to,
+ * such as EkDottInput
+ *
+ * @member {function} loadMore Requests the next page of the results
+ * */
+export interface BookSearchSource extends HTMLElement {
+  loadMore(): void;
+}
+
+/**
+ * @type BookSelectEvent
+ * a cancelable CustomEvent raised by EkDottCarousel when a book cover is activated,
+ * cancel it with preventDefault() to take over from the built-in detail view
+ *
+ * @member {Book} book The activated book
+ * @member {number} index Index of the book in the feed
+ * */
+export type BookSelectEvent = CustomEvent<{book: Book, index: number}>;
+
+/**
+ * @type CarouselOverflowEvent
+ * raised by EkDottCarousel as "overflowmode" when it picks how to show a feed
+ * shorter than the number of visible items, with mode "none" once the feed is long enough
+ *
+ * @member {string} mode "none", "center", "shrink" or "loop"
+ * @member {number} length Number of books in the feed
+ * @member {number} items Number of visible items the carousel is configured with
+ * */
+export type CarouselOverflowEvent = CustomEvent<{mode: string, length: number, items: number}>;
+
+/**
+ * @type BookCellRenderer
+ * renders the content of one carousel cell for the book,
+ * set as EkDottCarousel.renderItem to replace the built-in cell
+ * */
+export type BookCellRenderer = (book: Book, index: number) => Node;
+
+/**
+ * @type VoiceCommand
+ * a command recognized in the speech by the voice command grammar
+ * e.g. 'books by tolkien' is {name: 'author', argument: 'tolkien', transcript: 'books by tolkien'}
+ *
+ * @member {string} name Name of the command: search, author, nextpage, previouspage, pause, resume, clear or a registered one
+ * @member {string} argument The part of the phrase captured by the pattern, empty if none
+ * @member {string} transcript The whole recognized phrase
+ * */
+export type VoiceCommand = {
+  name: string,
+  argument: string,
+  transcript: string
+};
+
+/**
+ * @type VoiceCommandEvent
+ * raised by EkDottInput as "voicecommand" for a recognized command,
+ * cancelable to skip what the input itself does with the command
+ * */
+export type VoiceCommandEvent = CustomEvent<VoiceCommand>;
+
+declare global {
+  /**
+   * @interface HTMLElementEventMap
+   * augmented with our events so that addEventListener() gets typed listeners
+   * */
+  interface HTMLElementEventMap {
+    'searchstart': BookSearchEvent;
+    'searchdone': BookSearchEvent;
+    'searchpage': BookSearchEvent;
+    'searchempty': BookSearchEvent;
+    'searcherror': BookSearchEvent;
+    'searchabort': BookSearchEvent;
+    'loadmore': Event;
+    'bookselect': BookSelectEvent;
+    'voicecommand': VoiceCommandEvent;
+    'overflowmode': CarouselOverflowEvent;
+  }
+}
+
+/**
+ * @interface SpeechRecognitionLike
+ * the members of SpeechRecognition the speech service uses,
+ * the DOM library of this TypeScript version does not declare it
+ *
+ * @member {string} lang BCP 47 language of the speech
+ * @member {boolean} continuous
+ * @member {boolean} interimResults Whether the results are delivered while speaking
+ * */
+export interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onstart: (() => void) | null;
+  onresult: ((event: {resultIndex: number, results: ArrayLike<{isFinal: boolean, 0: {transcript: string}}>}) => void) | null;
+  onerror: ((event: {error: string}) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
 }
 
 /**
  * @interface SpeechWindow
  * defines a stub interface for TypeScript validation
  * because for the reason unkown it does not recognise
- * window.webkitSpeechRecognition() object used in speech recognition API
+ * window.SpeechRecognition() object used in speech recognition API,
+ * nor its prefixed version window.webkitSpeechRecognition()
  *
- * @member {any} webkitSpeechRecognition
+ * @member {Function} SpeechRecognition
+ * @member {Function} webkitSpeechRecognition
  * */
 export interface SpeechWindow extends Window {
-  webkitSpeechRecognition : any;
-}
\ No newline at end of file
+  SpeechRecognition?: new () => SpeechRecognitionLike;
+  webkitSpeechRecognition?: new () => SpeechRecognitionLike;
+}
+
+/**
+ * @interface ResizeObserver
+ * the members of ResizeObserver the components use,
+ * the DOM library of this TypeScript version does not declare it yet
+ * */
+export interface ResizeObserver {
+  observe(target: Element): void;
+  unobserve(target: Element): void;
+  disconnect(): void;
+}
+
+/**
+ * @interface ResizeObserverWindow
+ * defines a stub interface for TypeScript validation of window.ResizeObserver
+ *
+ * @member {Function} ResizeObserver constructor, undefined in older browsers
+ * */
+export interface ResizeObserverWindow extends Window {
+  ResizeObserver?: new (callback: (entries: {target: Element, contentRect: DOMRectReadOnly}[]) => void) => ResizeObserver;
+}
+
+/**
+ * @interface ElementInternalsLike
+ * the members of ElementInternals a form-associated element uses,
+ * the DOM library of this TypeScript version does not declare it yet
+ *
+ * @member {HTMLFormElement | null} form The form the element belongs to
+ * */
+export interface ElementInternalsLike {
+  readonly form: HTMLFormElement | null;
+  readonly validity: ValidityState;
+  readonly validationMessage: string;
+  readonly willValidate: boolean;
+  setFormValue(value: string | null, state?: string | null): void;
+  setValidity(flags: {valueMissing?: boolean, tooShort?: boolean, customError?: boolean}, message?: string, anchor?: HTMLElement): void;
+  checkValidity(): boolean;
+  reportValidity(): boolean;
+}
+
+/**
+ * @interface InternalsElement
+ * defines a stub interface for TypeScript validation of HTMLElement.attachInternals()
+ *
+ * @member {Function} attachInternals undefined in older browsers
+ * */
+export interface InternalsElement extends HTMLElement {
+  attachInternals?: () => ElementInternalsLike;
+}
+
+/**
+ * @type BookQuery
+ * a structured search query, parsed from the mini-syntax
+ * e.g. 'hobbit author:tolkien year:1950..1960' or filled in the advanced panel
+ *
+ * @member {string} text Free text searched in all fields
+ * @member {string} title
+ * @member {string} author
+ * @member {string} subject
+ * @member {string} isbn
+ * @member {string} language Language code such as "eng" or "fre"
+ * @member {number} yearFrom First publish year from, inclusive
+ * @member {number} yearTo First publish year to, inclusive
+ * */
+export type BookQuery = {
+  text?: string,
+  title?: string,
+  author?: string,
+  subject?: string,
+  isbn?: string,
+  language?: string,
+  yearFrom?: number,
+  yearTo?: number
+}
+
+/**
+ * @type BookSearchResult
+ * represents one page of books returned by a search provider
+ * together with the paging information
+ *
+ * @member {Book[]} data Books found on the requested page
+ * @member {number} total Total number of books found for the query
+ * @member {number} page Number of the returned page starting from 1
+ * @member {number} pageSize Maximum number of books in one page
+ * */
+export type BookSearchResult = {
+  data: Book[],
+  total: number,
+  page: number,
+  pageSize: number
+}
+
+/**
+ * @type BookSearchOptions
+ * optional parameters of a single search request
+ *
+ * @member {number} page Number of the page to fetch starting from 1
+ * @member {AbortSignal} signal Signal to cancel the request
+ * @member {BookQuery} filters The query parsed into its filters, providers can use it instead of parsing the query string
+ * */
+export type BookSearchOptions = {
+  page?: number,
+  signal?: AbortSignal,
+  filters?: BookQuery
+}
+
+/**
+ * @interface BookSearchProvider
+ * defines a source of books which EkDottInput can query.
+ * OpenLibrary is used by default, other sources (Google Books, a catalog, a mock server)
+ * can implement this interface and be registered by name.
+ *
+ * @member {string} name Name under which the provider is registered
+ * @member {function} search Queries the source with the query string and resolves with one page of books
+ * @member {function} suggest Optional, resolves with title/author suggestions for the typed text
+ * */
+export interface BookSearchProvider {
+  readonly name: string;
+  search(query: string, options?: BookSearchOptions): Promise<BookSearchResult>;
+  suggest?(text: string, options?: BookSearchOptions): Promise<string[]>;
+}
+
+/**
+ * @type BookSearchProviderFactory
+ * creates a provider instance, optionally for a custom endpoint URL
+ * */
+export type BookSearchProviderFactory = (endPoint?: string) => BookSearchProvider;